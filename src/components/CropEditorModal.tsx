@@ -1,29 +1,95 @@
-import { useState, useRef, useEffect, useCallback, type MouseEvent, type TouchEvent, type WheelEvent, type KeyboardEvent } from 'react';
-import { X, RotateCcw, Maximize2, Move, ZoomIn, ZoomOut, Check, Crosshair } from 'lucide-react';
-import type { ImageFile, CropState } from '@/types/image';
+import { useState, useRef, useEffect, useCallback, useMemo, type MouseEvent, type TouchEvent, type WheelEvent, type KeyboardEvent } from 'react';
+import { X, TriangleAlert, RotateCcw, RotateCcwSquare, RotateCwSquare, FlipHorizontal2, FlipVertical2, Eye, Maximize2, Move, ZoomIn, ZoomOut, Check, Crosshair, Sparkles, Flame, LocateFixed, LocateOff } from 'lucide-react';
+import type { ImageFile, CropState, CropHandle, SmartCropCandidate, FocalPoint } from '@/types/image';
 import { useApp } from '@/context/AppContext';
 import { useCropState } from '@/hooks/useCropState';
+import {
+  frameAroundFocalPoint,
+  getRotatedBounds,
+  smartCropToCropState,
+  sourceToViewVector,
+  viewToSourceVector,
+} from '@/lib/cropMath';
+import { getImageUpscaleFactor, getSourceRect, UPSCALE_TOLERANCE } from '@/lib/outputLayout';
+import { renderImage } from '@/lib/imageUtils';
+import { getCropVariants, getProfileCropState, MAIN_CROP_VARIANT } from '@/lib/exportProfiles';
+import { analyzeImage, analyzeSaliency } from '@/lib/smartCropWorker';
+import { renderSaliencyHeatmap } from '@/lib/saliency';
+import type { RenderCanvas } from '@/lib/canvas';
 import { Button } from '@/components/ui/button';
 import { Slider } from '@/components/ui/slider';
 import { Dialog, DialogContent } from '@/components/ui/dialog';
 
+const HANDLE_HIT_RADIUS = 12;
+
+// Rendering the output runs the full export pipeline, so wait for the crop to settle
+const PREVIEW_DELAY = 250;
+
+const HANDLE_CURSORS: Record<CropHandle, string> = {
+  nw: 'nwse-resize',
+  se: 'nwse-resize',
+  ne: 'nesw-resize',
+  sw: 'nesw-resize',
+  n: 'ns-resize',
+  s: 'ns-resize',
+  e: 'ew-resize',
+  w: 'ew-resize',
+};
+
 interface CropEditorModalProps {
   image: ImageFile;
   onClose: () => void;
 }
 
 export function CropEditorModal({ image, onClose }: CropEditorModalProps) {
-  const { updateCropState, state } = useApp();
+  const { updateCropState, setFocalPoint, state } = useApp();
   const containerRef = useRef<HTMLDivElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const previewCanvasRef = useRef<HTMLCanvasElement>(null);
+
+  const { exportSettings } = state.settings;
+
+  // One tab per crop: the main output plus each profile with its own aspect
+  const variants = useMemo(() => getCropVariants(exportSettings), [exportSettings]);
+  const [activeVariantId, setActiveVariantId] = useState(MAIN_CROP_VARIANT);
+  const activeVariant = variants.find((variant) => variant.id === activeVariantId) ?? variants[0];
+  const variantSettings = activeVariant.settings;
 
   const [localCropState, setLocalCropState] = useState<CropState>(image.cropState);
+  // Edits made on the tabs that aren't showing
+  const [otherCropStates, setOtherCropStates] = useState<Record<string, CropState>>({});
   const [containerSize, setContainerSize] = useState({ width: 800, height: 600 });
   const [isDragging, setIsDragging] = useState(false);
   const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
   const [cropStartCenter, setCropStartCenter] = useState({ x: 0.5, y: 0.5 });
-
-  const { displayCrop, maxScale, updateCenter, updateScale, reset, center, fit } = useCropState(
+  const [activeHandle, setActiveHandle] = useState<CropHandle | null>(null);
+  const [hoverHandle, setHoverHandle] = useState<CropHandle | null>(null);
+  const [showPreview, setShowPreview] = useState(false);
+  const [previewUnsharpened, setPreviewUnsharpened] = useState(false);
+  const [previewSize, setPreviewSize] = useState<{ width: number; height: number } | null>(null);
+  // Smart crop suggestions for the active tab, best first
+  const [candidates, setCandidates] = useState<SmartCropCandidate[]>([]);
+  const [candidateIndex, setCandidateIndex] = useState<number | null>(null);
+  const [showHeatmap, setShowHeatmap] = useState(false);
+  const [heatmap, setHeatmap] = useState<RenderCanvas | null>(null);
+  const [focalPoint, setLocalFocalPoint] = useState<FocalPoint | undefined>(image.focalPoint);
+  // The next click on the image places the focal point instead of dragging
+  const [isPickingFocalPoint, setIsPickingFocalPoint] = useState(false);
+
+  const {
+    displayCrop,
+    maxScale,
+    updateCenter,
+    updateScale,
+    resizeFromHandle,
+    updateRotation,
+    rotateBy,
+    toggleFlipX,
+    toggleFlipY,
+    reset,
+    center,
+    fit,
+  } = useCropState(
     localCropState,
     image.originalWidth,
     image.originalHeight
@@ -45,17 +111,108 @@ export function CropEditorModal({ image, onClose }: CropEditorModalProps) {
     return () => resizeObserver.disconnect();
   }, []);
 
-  // Calculate display scale
+  const upscaleFactor = getImageUpscaleFactor(
+    image.originalWidth,
+    image.originalHeight,
+    localCropState,
+    variantSettings
+  );
+
+  // Render the real output (at 1:1, where sharpening is visible) into the preview panel
+  useEffect(() => {
+    if (!showPreview || !image.bitmap) return;
+
+    const timer = setTimeout(() => {
+      const target = previewCanvasRef.current;
+      if (!target) return;
+
+      const rendered = renderImage(
+        image.bitmap,
+        getSourceRect(image.originalWidth, image.originalHeight, localCropState, variantSettings),
+        previewUnsharpened ? { ...variantSettings, sharpen: false } : variantSettings
+      );
+      target.width = rendered.width;
+      target.height = rendered.height;
+      target.getContext('2d')?.drawImage(rendered, 0, 0);
+      setPreviewSize({ width: rendered.width, height: rendered.height });
+    }, PREVIEW_DELAY);
+
+    return () => clearTimeout(timer);
+  }, [showPreview, previewUnsharpened, image.bitmap, image.originalWidth, image.originalHeight, localCropState, variantSettings]);
+
+  // Suggestions come from the cache unless this tab's size hasn't been analyzed yet
+  const { enableSmartCrop, smartCropOptions } = state.settings;
+  const { targetWidth, targetHeight } = variantSettings;
+  useEffect(() => {
+    setCandidates([]);
+    setCandidateIndex(null);
+    if (!enableSmartCrop || !image.bitmap) return;
+
+    let cancelled = false;
+    analyzeImage(image.bitmap, targetWidth, targetHeight, image.id, image.cropState.sourceHash, smartCropOptions)
+      .then((result) => {
+        if (!cancelled) setCandidates(result?.candidates ?? []);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [enableSmartCrop, smartCropOptions, image.bitmap, image.id, image.cropState.sourceHash, targetWidth, targetHeight]);
+
+  // What smartcrop considers important, drawn over the image
+  useEffect(() => {
+    setHeatmap(null);
+    if (!showHeatmap || !image.bitmap) return;
+
+    let cancelled = false;
+    analyzeSaliency(image.bitmap, targetWidth, targetHeight, image.id, smartCropOptions).then((map) => {
+      if (map && !cancelled) setHeatmap(renderSaliencyHeatmap(map));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [showHeatmap, image.bitmap, image.id, targetWidth, targetHeight, smartCropOptions]);
+
+  // Score of the suggestion on screen; the best one until another is picked
+  const candidateScore = candidates[candidateIndex ?? 0]?.score;
+
+  // In free mode the edges resize width and height independently
+  const isFreeCrop = variantSettings.cropMode === 'free';
+
+  const rotation = localCropState.rotation ?? 0;
+  const { flipX, flipY } = localCropState;
+  // Fine straightening angle on top of the 90° steps
+  const quarterTurns = Math.round(rotation / 90);
+  const straightenAngle = rotation - quarterTurns * 90;
+
+  // Calculate display scale (the image is shown rotated, so fit its rotated bounds)
+  const rotatedBounds = getRotatedBounds(image.originalWidth, image.originalHeight, rotation);
   const displayScale = Math.min(
-    containerSize.width / image.originalWidth,
-    containerSize.height / image.originalHeight,
+    containerSize.width / rotatedBounds.width,
+    containerSize.height / rotatedBounds.height,
     1
   ) * 0.9; // 90% to add padding
 
   const displayImageWidth = image.originalWidth * displayScale;
   const displayImageHeight = image.originalHeight * displayScale;
-  const imageOffsetX = (containerSize.width - displayImageWidth) / 2;
-  const imageOffsetY = (containerSize.height - displayImageHeight) / 2;
+  const viewCenterX = containerSize.width / 2;
+  const viewCenterY = containerSize.height / 2;
+
+  // Crop rectangle in view pixels (axis-aligned in the rotated view)
+  const cropView = useMemo(() => {
+    const cropCenter = sourceToViewVector(
+      (displayCrop.x + displayCrop.width / 2 - image.originalWidth / 2) * displayScale,
+      (displayCrop.y + displayCrop.height / 2 - image.originalHeight / 2) * displayScale,
+      { rotation, flipX, flipY }
+    );
+    const width = displayCrop.width * displayScale;
+    const height = displayCrop.height * displayScale;
+    return {
+      x: viewCenterX + cropCenter.x - width / 2,
+      y: viewCenterY + cropCenter.y - height / 2,
+      width,
+      height,
+    };
+  }, [displayCrop, displayScale, image.originalWidth, image.originalHeight, rotation, flipX, flipY, viewCenterX, viewCenterY]);
 
   // Draw canvas
   useEffect(() => {
@@ -79,20 +236,35 @@ export function CropEditorModal({ image, onClose }: CropEditorModalProps) {
       }
     }
 
-    // Draw image
+    // Draw image rotated and mirrored around its center
+    ctx.save();
+    ctx.translate(viewCenterX, viewCenterY);
+    ctx.scale(flipX ? -1 : 1, flipY ? -1 : 1);
+    ctx.rotate((rotation * Math.PI) / 180);
     ctx.drawImage(
       image.bitmap,
-      imageOffsetX,
-      imageOffsetY,
+      -displayImageWidth / 2,
+      -displayImageHeight / 2,
       displayImageWidth,
       displayImageHeight
     );
+    if (heatmap) {
+      // The map covers the whole image at a lower resolution
+      ctx.globalAlpha = 0.6;
+      ctx.drawImage(
+        heatmap,
+        -displayImageWidth / 2,
+        -displayImageHeight / 2,
+        displayImageWidth,
+        displayImageHeight
+      );
+      ctx.globalAlpha = 1;
+    }
+    ctx.restore();
+
+    const { x: cropX, y: cropY, width: cropW, height: cropH } = cropView;
 
     // Draw overlay outside crop
-    const cropX = imageOffsetX + displayCrop.x * displayScale;
-    const cropY = imageOffsetY + displayCrop.y * displayScale;
-    const cropW = displayCrop.width * displayScale;
-    const cropH = displayCrop.height * displayScale;
 
     ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
     // Top
@@ -135,16 +307,9 @@ export function CropEditorModal({ image, onClose }: CropEditorModalProps) {
     ctx.strokeStyle = 'white';
     ctx.lineWidth = 2;
 
-    const corners = [
-      { x: cropX, y: cropY },
-      { x: cropX + cropW, y: cropY },
-      { x: cropX, y: cropY + cropH },
-      { x: cropX + cropW, y: cropY + cropH },
-    ];
-
-    corners.forEach(({ x, y }) => {
+    getHandlePositions(cropView, isFreeCrop).forEach(({ handle, x, y }) => {
       ctx.beginPath();
-      ctx.arc(x, y, handleSize / 2, 0, Math.PI * 2);
+      ctx.arc(x, y, (handle === activeHandle ? handleSize + 4 : handleSize) / 2, 0, Math.PI * 2);
       ctx.fill();
       ctx.stroke();
     });
@@ -160,58 +325,155 @@ export function CropEditorModal({ image, onClose }: CropEditorModalProps) {
     ctx.lineTo(cropX + cropW, cropY + cropH / 2);
     ctx.stroke();
     ctx.setLineDash([]);
-  }, [containerSize, image.bitmap, displayCrop, displayScale, imageOffsetX, imageOffsetY, displayImageWidth, displayImageHeight, state.settings.showRuleOfThirds]);
+
+    // Draw focal point
+    if (focalPoint) {
+      const point = sourceToViewVector(
+        (focalPoint.x - 0.5) * displayImageWidth,
+        (focalPoint.y - 0.5) * displayImageHeight,
+        { rotation, flipX, flipY }
+      );
+      ctx.beginPath();
+      ctx.arc(viewCenterX + point.x, viewCenterY + point.y, 8, 0, Math.PI * 2);
+      ctx.fillStyle = 'rgba(245, 158, 11, 0.5)';
+      ctx.fill();
+      ctx.strokeStyle = 'white';
+      ctx.lineWidth = 2;
+      ctx.stroke();
+    }
+  }, [containerSize, image.bitmap, cropView, activeHandle, isFreeCrop, rotation, flipX, flipY, viewCenterX, viewCenterY, displayImageWidth, displayImageHeight, state.settings.showRuleOfThirds, heatmap, focalPoint]);
+
+  // Convert a drag in view pixels into a normalized center offset in the source image
+  const viewDeltaToImage = useCallback((dx: number, dy: number) => {
+    const delta = viewToSourceVector(dx, dy, { rotation, flipX, flipY });
+    return {
+      x: delta.x / displayImageWidth,
+      y: delta.y / displayImageHeight,
+    };
+  }, [rotation, flipX, flipY, displayImageWidth, displayImageHeight]);
+
+  // Pointer position in view pixels
+  const toViewPoint = useCallback((clientX: number, clientY: number) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    return {
+      x: clientX - (rect?.left ?? 0),
+      y: clientY - (rect?.top ?? 0),
+    };
+  }, []);
+
+  const hitTestHandle = useCallback((clientX: number, clientY: number): CropHandle | null => {
+    const point = toViewPoint(clientX, clientY);
+    const hit = getHandlePositions(cropView, isFreeCrop).find(
+      ({ x, y }) => Math.hypot(point.x - x, point.y - y) <= HANDLE_HIT_RADIUS
+    );
+    return hit?.handle ?? null;
+  }, [toViewPoint, cropView, isFreeCrop]);
+
+  // Resize from the active handle; the pointer is passed relative to the crop center
+  const resizeToPointer = useCallback((handle: CropHandle, clientX: number, clientY: number) => {
+    const point = toViewPoint(clientX, clientY);
+    const newState = resizeFromHandle(
+      handle,
+      (point.x - (cropView.x + cropView.width / 2)) / displayScale,
+      (point.y - (cropView.y + cropView.height / 2)) / displayScale,
+      !isFreeCrop
+    );
+    setLocalCropState(newState);
+  }, [toViewPoint, cropView, displayScale, resizeFromHandle, isFreeCrop]);
+
+  // Place the focal point under the pointer and frame the crop around it
+  const placeFocalPoint = useCallback((clientX: number, clientY: number) => {
+    const point = toViewPoint(clientX, clientY);
+    const delta = viewToSourceVector(point.x - viewCenterX, point.y - viewCenterY, { rotation, flipX, flipY });
+    const x = 0.5 + delta.x / displayImageWidth;
+    const y = 0.5 + delta.y / displayImageHeight;
+    if (x < 0 || x > 1 || y < 0 || y > 1) return;
+
+    // Crops already edited for other variants follow the point as well
+    const frame = (cropState: CropState) =>
+      frameAroundFocalPoint(cropState, { x, y }, image.originalWidth, image.originalHeight, cropState.aspect);
+    setLocalFocalPoint({ x, y });
+    setLocalCropState(frame(localCropState));
+    setOtherCropStates((prev) =>
+      Object.fromEntries(Object.entries(prev).map(([id, cropState]) => [id, frame(cropState)]))
+    );
+    setCandidateIndex(null);
+    setIsPickingFocalPoint(false);
+  }, [toViewPoint, viewCenterX, viewCenterY, rotation, flipX, flipY, displayImageWidth, displayImageHeight, localCropState, image.originalWidth, image.originalHeight]);
 
   // Mouse handlers
   const handleMouseDown = useCallback((e: MouseEvent) => {
+    if (isPickingFocalPoint) {
+      placeFocalPoint(e.clientX, e.clientY);
+      return;
+    }
     setIsDragging(true);
+    setActiveHandle(hitTestHandle(e.clientX, e.clientY));
     setDragStart({ x: e.clientX, y: e.clientY });
     setCropStartCenter({ x: localCropState.centerX, y: localCropState.centerY });
-  }, [localCropState]);
+  }, [localCropState, hitTestHandle, isPickingFocalPoint, placeFocalPoint]);
 
   const handleMouseMove = useCallback((e: MouseEvent) => {
-    if (!isDragging) return;
+    if (!isDragging) {
+      setHoverHandle(hitTestHandle(e.clientX, e.clientY));
+      return;
+    }
 
-    const deltaX = (e.clientX - dragStart.x) / displayImageWidth;
-    const deltaY = (e.clientY - dragStart.y) / displayImageHeight;
+    if (activeHandle) {
+      resizeToPointer(activeHandle, e.clientX, e.clientY);
+      return;
+    }
+
+    const delta = viewDeltaToImage(e.clientX - dragStart.x, e.clientY - dragStart.y);
 
     const newState = updateCenter(
-      cropStartCenter.x - deltaX,
-      cropStartCenter.y - deltaY
+      cropStartCenter.x - delta.x,
+      cropStartCenter.y - delta.y
     );
     setLocalCropState(newState);
-  }, [isDragging, dragStart, cropStartCenter, displayImageWidth, displayImageHeight, updateCenter]);
+  }, [isDragging, activeHandle, dragStart, cropStartCenter, viewDeltaToImage, updateCenter, hitTestHandle, resizeToPointer]);
 
   const handleMouseUp = useCallback(() => {
     setIsDragging(false);
+    setActiveHandle(null);
   }, []);
 
   // Touch handlers
   const handleTouchStart = useCallback((e: TouchEvent) => {
     if (e.touches.length === 1) {
       const touch = e.touches[0];
+      if (isPickingFocalPoint) {
+        placeFocalPoint(touch.clientX, touch.clientY);
+        return;
+      }
       setIsDragging(true);
+      setActiveHandle(hitTestHandle(touch.clientX, touch.clientY));
       setDragStart({ x: touch.clientX, y: touch.clientY });
       setCropStartCenter({ x: localCropState.centerX, y: localCropState.centerY });
     }
-  }, [localCropState]);
+  }, [localCropState, hitTestHandle, isPickingFocalPoint, placeFocalPoint]);
 
   const handleTouchMove = useCallback((e: TouchEvent) => {
     if (!isDragging || e.touches.length !== 1) return;
 
     const touch = e.touches[0];
-    const deltaX = (touch.clientX - dragStart.x) / displayImageWidth;
-    const deltaY = (touch.clientY - dragStart.y) / displayImageHeight;
+    if (activeHandle) {
+      resizeToPointer(activeHandle, touch.clientX, touch.clientY);
+      return;
+    }
+
+    const delta = viewDeltaToImage(touch.clientX - dragStart.x, touch.clientY - dragStart.y);
 
     const newState = updateCenter(
-      cropStartCenter.x - deltaX,
-      cropStartCenter.y - deltaY
+      cropStartCenter.x - delta.x,
+      cropStartCenter.y - delta.y
     );
     setLocalCropState(newState);
-  }, [isDragging, dragStart, cropStartCenter, displayImageWidth, displayImageHeight, updateCenter]);
+  }, [isDragging, activeHandle, dragStart, cropStartCenter, viewDeltaToImage, updateCenter, resizeToPointer]);
 
   const handleTouchEnd = useCallback(() => {
     setIsDragging(false);
+    setActiveHandle(null);
   }, []);
 
   // Wheel zoom
@@ -223,6 +485,41 @@ export function CropEditorModal({ image, onClose }: CropEditorModalProps) {
     setLocalCropState(newState);
   }, [localCropState, updateScale]);
 
+  // Save the crop of every tab that was edited
+  const applyAll = useCallback(() => {
+    // A new focal point reframes every stored crop; the ones edited here then take their place
+    if (focalPoint !== image.focalPoint) {
+      setFocalPoint(image.id, focalPoint ?? null);
+    }
+    const edited = { ...otherCropStates, [activeVariant.id]: localCropState };
+    for (const [id, cropState] of Object.entries(edited)) {
+      updateCropState(image.id, cropState, id === MAIN_CROP_VARIANT ? undefined : id);
+    }
+    onClose();
+  }, [otherCropStates, activeVariant.id, localCropState, image.id, image.focalPoint, focalPoint, updateCropState, setFocalPoint, onClose]);
+
+  // Step through the suggestions, starting from the best one
+  const showNextCandidate = useCallback(() => {
+    if (candidates.length === 0) return;
+    const index = candidateIndex === null ? 0 : (candidateIndex + 1) % candidates.length;
+    // A free crop keeps the shape it has been given
+    const aspect = isFreeCrop ? localCropState.aspect : targetWidth / targetHeight;
+    const cropState = smartCropToCropState(
+      candidates[index],
+      image.originalWidth,
+      image.originalHeight,
+      aspect,
+      localCropState.rotation ?? 0
+    );
+    setLocalCropState({
+      ...cropState,
+      sourceHash: localCropState.sourceHash,
+      flipX: localCropState.flipX,
+      flipY: localCropState.flipY,
+    });
+    setCandidateIndex(index);
+  }, [candidates, candidateIndex, image.originalWidth, image.originalHeight, isFreeCrop, targetWidth, targetHeight, localCropState]);
+
   // Keyboard shortcuts
   const handleKeyDown = useCallback((e: KeyboardEvent) => {
     const step = e.shiftKey ? 0.05 : 0.01;
@@ -259,21 +556,62 @@ export function CropEditorModal({ image, onClose }: CropEditorModalProps) {
         e.preventDefault();
         setLocalCropState(reset());
         break;
+      case '[':
+        e.preventDefault();
+        setLocalCropState(rotateBy(-90));
+        break;
+      case ']':
+        e.preventDefault();
+        setLocalCropState(rotateBy(90));
+        break;
+      case 'h':
+      case 'H':
+        e.preventDefault();
+        setLocalCropState(toggleFlipX());
+        break;
+      case 'v':
+      case 'V':
+        e.preventDefault();
+        setLocalCropState(toggleFlipY());
+        break;
+      case 'n':
+      case 'N':
+        e.preventDefault();
+        showNextCandidate();
+        break;
+      case 'f':
+      case 'F':
+        e.preventDefault();
+        setIsPickingFocalPoint(!isPickingFocalPoint);
+        break;
       case 'Enter':
         e.preventDefault();
-        updateCropState(image.id, localCropState);
-        onClose();
+        applyAll();
         break;
       case 'Escape':
         e.preventDefault();
         onClose();
         break;
     }
-  }, [localCropState, updateCenter, updateScale, reset, onClose, image.id, updateCropState]);
+  }, [localCropState, updateCenter, updateScale, rotateBy, toggleFlipX, toggleFlipY, reset, onClose, applyAll, showNextCandidate, isPickingFocalPoint]);
 
   const handleApply = () => {
-    updateCropState(image.id, localCropState);
-    onClose();
+    applyAll();
+  };
+
+  const handleSelectVariant = (id: string) => {
+    if (id === activeVariant.id) return;
+    const next = variants.find((variant) => variant.id === id);
+    if (!next) return;
+
+    setOtherCropStates((prev) => ({ ...prev, [activeVariant.id]: localCropState }));
+    const stored = next.profile ? getProfileCropState(image, next.settings, next.profile.id) : image.cropState;
+    // A focal point placed in this session hasn't reached the stored crops yet
+    const framed = focalPoint && focalPoint !== image.focalPoint
+      ? frameAroundFocalPoint(stored, focalPoint, image.originalWidth, image.originalHeight, stored.aspect)
+      : stored;
+    setLocalCropState(otherCropStates[id] ?? framed);
+    setActiveVariantId(id);
   };
 
   const handleReset = () => {
@@ -300,6 +638,26 @@ export function CropEditorModal({ image, onClose }: CropEditorModalProps) {
     setLocalCropState(updateScale(value[0]));
   };
 
+  const handleRotateLeft = () => {
+    setLocalCropState(rotateBy(-90));
+  };
+
+  const handleRotateRight = () => {
+    setLocalCropState(rotateBy(90));
+  };
+
+  const handleFlipX = () => {
+    setLocalCropState(toggleFlipX());
+  };
+
+  const handleFlipY = () => {
+    setLocalCropState(toggleFlipY());
+  };
+
+  const handleStraightenChange = (value: number[]) => {
+    setLocalCropState(updateRotation(quarterTurns * 90 + value[0]));
+  };
+
   return (
     <Dialog open onOpenChange={() => onClose()}>
       <DialogContent className="max-w-[95vw] max-h-[95vh] w-[1200px] h-[800px] p-0 gap-0 overflow-hidden">
@@ -309,16 +667,90 @@ export function CropEditorModal({ image, onClose }: CropEditorModalProps) {
             <div className="flex items-center gap-3">
               <h2 className="text-lg font-semibold">Edit Crop</h2>
               <span className="text-sm text-muted-foreground">{image.name}</span>
+              {upscaleFactor > UPSCALE_TOLERANCE && (
+                <span
+                  className="flex items-center gap-1 bg-destructive/90 text-destructive-foreground px-2 py-0.5 rounded text-xs font-medium"
+                  title="The selected region has fewer pixels than the output"
+                >
+                  <TriangleAlert className="w-3 h-3" />
+                  Upscaled {upscaleFactor.toFixed(1)}×
+                </span>
+              )}
+            </div>
+            <div className="flex items-center gap-2">
+              {candidateScore !== undefined && (
+                <span
+                  className="text-xs text-muted-foreground tabular-nums"
+                  title="smartcrop score of the suggested region (higher is better)"
+                >
+                  Score {candidateScore.toPrecision(3)}
+                </span>
+              )}
+              <Button
+                variant={showHeatmap ? 'secondary' : 'ghost'}
+                size="sm"
+                onClick={() => setShowHeatmap(!showHeatmap)}
+                className="gap-1.5"
+                title="Show what smart crop considers important: skin tones, detail and saturated color"
+              >
+                <Flame className="w-4 h-4" />
+                Heatmap
+              </Button>
+              {candidates.length > 1 && (
+                <Button
+                  variant={candidateIndex !== null ? 'secondary' : 'ghost'}
+                  size="sm"
+                  onClick={showNextCandidate}
+                  className="gap-1.5"
+                  title="Cycle through the best-scoring smart crops"
+                >
+                  <Sparkles className="w-4 h-4" />
+                  {candidateIndex === null
+                    ? 'Suggestions'
+                    : `Suggestion ${candidateIndex + 1}/${candidates.length}`}
+                </Button>
+              )}
+              <Button
+                variant={showPreview ? 'secondary' : 'ghost'}
+                size="sm"
+                onClick={() => setShowPreview(!showPreview)}
+                className="gap-1.5"
+                title="Show the exported image at 100%"
+              >
+                <Eye className="w-4 h-4" />
+                Output preview
+              </Button>
+              <Button variant="ghost" size="icon" onClick={onClose}>
+                <X className="w-5 h-5" />
+              </Button>
             </div>
-            <Button variant="ghost" size="icon" onClick={onClose}>
-              <X className="w-5 h-5" />
-            </Button>
           </div>
 
+          {variants.length > 1 && (
+            <div className="flex items-center gap-1 px-4 py-2 border-b border-border bg-card">
+              {variants.map((variant) => (
+                <Button
+                  key={variant.id}
+                  variant={variant.id === activeVariant.id ? 'secondary' : 'ghost'}
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={() => handleSelectVariant(variant.id)}
+                >
+                  {variant.label}
+                </Button>
+              ))}
+            </div>
+          )}
+
           {/* Canvas area */}
           <div
             ref={containerRef}
             className="flex-1 editor-canvas-container cursor-move touch-none"
+            style={{
+              cursor: isPickingFocalPoint
+                ? 'crosshair'
+                : (activeHandle ?? hoverHandle) ? HANDLE_CURSORS[activeHandle ?? hoverHandle] : undefined,
+            }}
             onMouseDown={handleMouseDown}
             onMouseMove={handleMouseMove}
             onMouseUp={handleMouseUp}
@@ -333,6 +765,37 @@ export function CropEditorModal({ image, onClose }: CropEditorModalProps) {
               className="absolute inset-0"
               style={{ width: '100%', height: '100%' }}
             />
+
+            {showPreview && (
+              <div
+                className="absolute bottom-3 right-3 bg-card border border-border rounded-lg shadow-lg cursor-default"
+                onMouseDown={(e) => e.stopPropagation()}
+                onTouchStart={(e) => e.stopPropagation()}
+                onWheel={(e) => e.stopPropagation()}
+              >
+                <div className="flex items-center justify-between gap-3 px-3 py-1.5 text-xs text-muted-foreground border-b border-border">
+                  <span>
+                    Output{previewSize && ` ${previewSize.width} × ${previewSize.height}px`}
+                  </span>
+                  {variantSettings.sharpen && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 px-2 text-xs"
+                      onMouseDown={() => setPreviewUnsharpened(true)}
+                      onMouseUp={() => setPreviewUnsharpened(false)}
+                      onMouseLeave={() => setPreviewUnsharpened(false)}
+                      title="Hold to compare without sharpening"
+                    >
+                      {previewUnsharpened ? 'Unsharpened' : 'Sharpened'}
+                    </Button>
+                  )}
+                </div>
+                <div className="max-w-[360px] max-h-[270px] overflow-auto">
+                  <canvas ref={previewCanvasRef} className="block" />
+                </div>
+              </div>
+            )}
           </div>
 
           {/* Footer controls */}
@@ -350,6 +813,63 @@ export function CropEditorModal({ image, onClose }: CropEditorModalProps) {
                 <Maximize2 className="w-4 h-4" />
                 Fit
               </Button>
+              <Button
+                variant={isPickingFocalPoint ? 'secondary' : 'outline'}
+                size="sm"
+                onClick={() => setIsPickingFocalPoint(!isPickingFocalPoint)}
+                className="gap-1.5"
+                title="Click the subject; crops of every aspect are framed around it and smart crop leaves this image alone"
+              >
+                <LocateFixed className="w-4 h-4" />
+                Focal point
+              </Button>
+              {focalPoint && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setLocalFocalPoint(undefined)}
+                  title="Remove focal point"
+                >
+                  <LocateOff className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+
+            <div className="flex items-center gap-3">
+              <Button variant="ghost" size="icon" onClick={handleRotateLeft} title="Rotate 90° left">
+                <RotateCcwSquare className="w-4 h-4" />
+              </Button>
+              <div className="w-28">
+                <Slider
+                  value={[straightenAngle]}
+                  min={-45}
+                  max={45}
+                  step={0.1}
+                  onValueChange={handleStraightenChange}
+                />
+              </div>
+              <Button variant="ghost" size="icon" onClick={handleRotateRight} title="Rotate 90° right">
+                <RotateCwSquare className="w-4 h-4" />
+              </Button>
+              <span className="text-sm text-muted-foreground w-12 text-right">
+                {Math.round(rotation * 10) / 10}°
+              </span>
+              <Button
+                variant={flipX ? 'secondary' : 'ghost'}
+                size="icon"
+                onClick={handleFlipX}
+                title="Flip horizontal"
+              >
+                <FlipHorizontal2 className="w-4 h-4" />
+              </Button>
+              <Button
+                variant={flipY ? 'secondary' : 'ghost'}
+                size="icon"
+                onClick={handleFlipY}
+                title="Flip vertical"
+              >
+                <FlipVertical2 className="w-4 h-4" />
+              </Button>
             </div>
 
             <div className="flex items-center gap-3">
@@ -392,9 +912,23 @@ export function CropEditorModal({ image, onClose }: CropEditorModalProps) {
             <span>
               <kbd className="px-1.5 py-0.5 bg-muted rounded text-[10px]">+/-</kbd> Zoom
             </span>
+            <span>
+              <kbd className="px-1.5 py-0.5 bg-muted rounded text-[10px]">[ ]</kbd> Rotate
+            </span>
+            <span>
+              <kbd className="px-1.5 py-0.5 bg-muted rounded text-[10px]">H/V</kbd> Flip
+            </span>
             <span>
               <kbd className="px-1.5 py-0.5 bg-muted rounded text-[10px]">R</kbd> Reset
             </span>
+            <span>
+              <kbd className="px-1.5 py-0.5 bg-muted rounded text-[10px]">F</kbd> Focal point
+            </span>
+            {candidates.length > 1 && (
+              <span>
+                <kbd className="px-1.5 py-0.5 bg-muted rounded text-[10px]">N</kbd> Next suggestion
+              </span>
+            )}
             <span>
               <kbd className="px-1.5 py-0.5 bg-muted rounded text-[10px]">Enter</kbd> Apply
             </span>
@@ -407,3 +941,28 @@ export function CropEditorModal({ image, onClose }: CropEditorModalProps) {
     </Dialog>
   );
 }
+
+function getHandlePositions(
+  crop: { x: number; y: number; width: number; height: number },
+  includeEdges: boolean
+): Array<{
+  handle: CropHandle;
+  x: number;
+  y: number;
+}> {
+  const corners: Array<{ handle: CropHandle; x: number; y: number }> = [
+    { handle: 'nw', x: crop.x, y: crop.y },
+    { handle: 'ne', x: crop.x + crop.width, y: crop.y },
+    { handle: 'sw', x: crop.x, y: crop.y + crop.height },
+    { handle: 'se', x: crop.x + crop.width, y: crop.y + crop.height },
+  ];
+  if (!includeEdges) return corners;
+
+  return [
+    ...corners,
+    { handle: 'n', x: crop.x + crop.width / 2, y: crop.y },
+    { handle: 's', x: crop.x + crop.width / 2, y: crop.y + crop.height },
+    { handle: 'w', x: crop.x, y: crop.y + crop.height / 2 },
+    { handle: 'e', x: crop.x + crop.width, y: crop.y + crop.height / 2 },
+  ];
+}
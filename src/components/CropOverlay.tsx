@@ -1,6 +1,7 @@
 import { useMemo, useRef, useEffect } from 'react';
-import type { CropState } from '@/types/image';
-import { calculateCrop } from '@/lib/cropMath';
+import type { CropState, ExportSettings } from '@/types/image';
+import { calculateCrop, getFlipTransform } from '@/lib/cropMath';
+import { getOutputLayout, getSourceRect } from '@/lib/outputLayout';
 
 interface CropOverlayProps {
   imageWidth: number;
@@ -10,6 +11,8 @@ interface CropOverlayProps {
   containerHeight: number;
   showRuleOfThirds?: boolean;
   interactive?: boolean;
+  // When given, preview the output frame the resize mode will produce
+  exportSettings?: ExportSettings;
 }
 
 export function CropOverlay({
@@ -20,6 +23,7 @@ export function CropOverlay({
   containerHeight,
   showRuleOfThirds = true,
   interactive = false,
+  exportSettings,
 }: CropOverlayProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
 
@@ -30,16 +34,41 @@ export function CropOverlay({
     return Math.min(scaleX, scaleY);
   }, [containerWidth, containerHeight, imageWidth, imageHeight]);
 
-  // Calculate crop in display coordinates
+  // Calculate crop in display coordinates, plus the output frame around it:
+  // the output canvas mapped back onto the source. It is smaller than the
+  // source region when cover trims it and larger when pad adds bars.
   const displayCrop = useMemo(() => {
-    const calc = calculateCrop(imageWidth, imageHeight, cropState);
+    const source = exportSettings
+      ? getSourceRect(imageWidth, imageHeight, cropState, exportSettings)
+      : getCropRectFromCalculation(imageWidth, imageHeight, cropState);
+
+    let frame = { x: -source.width / 2, y: -source.height / 2, width: source.width, height: source.height };
+    if (exportSettings) {
+      const layout = getOutputLayout(source.width, source.height, exportSettings);
+      const scaleX = layout.drawWidth / source.width;
+      const scaleY = layout.drawHeight / source.height;
+      frame = {
+        x: -source.width / 2 - layout.drawX / scaleX,
+        y: -source.height / 2 - layout.drawY / scaleY,
+        width: layout.canvasWidth / scaleX,
+        height: layout.canvasHeight / scaleY,
+      };
+    }
+
     return {
-      x: calc.cropX * scale,
-      y: calc.cropY * scale,
-      width: calc.cropWidth * scale,
-      height: calc.cropHeight * scale,
+      x: source.x * scale,
+      y: source.y * scale,
+      width: source.width * scale,
+      height: source.height * scale,
+      rotation: source.rotation ?? 0,
+      frame: {
+        x: frame.x * scale,
+        y: frame.y * scale,
+        width: frame.width * scale,
+        height: frame.height * scale,
+      },
     };
-  }, [imageWidth, imageHeight, cropState, scale]);
+  }, [imageWidth, imageHeight, cropState, exportSettings, scale]);
 
   // Calculate image offset to center
   const imageOffset = useMemo(() => ({
@@ -62,23 +91,23 @@ export function CropOverlay({
     // Clear
     ctx.clearRect(0, 0, containerWidth, containerHeight);
 
-    // Calculate actual crop position
-    const cropX = imageOffset.x + displayCrop.x;
-    const cropY = imageOffset.y + displayCrop.y;
-    const cropW = displayCrop.width;
-    const cropH = displayCrop.height;
+    // The thumbnail is unrotated, so a rotated crop is drawn tilted the other way
+    // around its center; everything below is drawn in the crop's own frame
+    const centerX = imageOffset.x + displayCrop.x + displayCrop.width / 2;
+    const centerY = imageOffset.y + displayCrop.y + displayCrop.height / 2;
+    const { x: cropX, y: cropY, width: cropW, height: cropH } = displayCrop.frame;
+    const angle = (-displayCrop.rotation * Math.PI) / 180;
 
     // Draw semi-transparent overlay outside crop area
     ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
-    
-    // Top
-    ctx.fillRect(0, 0, containerWidth, cropY);
-    // Bottom
-    ctx.fillRect(0, cropY + cropH, containerWidth, containerHeight - cropY - cropH);
-    // Left
-    ctx.fillRect(0, cropY, cropX, cropH);
-    // Right
-    ctx.fillRect(cropX + cropW, cropY, containerWidth - cropX - cropW, cropH);
+    ctx.beginPath();
+    ctx.rect(0, 0, containerWidth, containerHeight);
+    ctx.save();
+    ctx.translate(centerX, centerY);
+    ctx.rotate(angle);
+    ctx.rect(cropX, cropY, cropW, cropH);
+    ctx.restore();
+    ctx.fill('evenodd');
 
     // Draw diagonal stripes pattern in overlay areas
     ctx.save();
@@ -91,6 +120,21 @@ export function CropOverlay({
     }
     ctx.restore();
 
+    ctx.save();
+    ctx.translate(centerX, centerY);
+    ctx.rotate(angle);
+
+    // Shade the padding the output adds around the source region
+    if (cropW > displayCrop.width + 1 || cropH > displayCrop.height + 1) {
+      ctx.fillStyle = exportSettings?.padBackground === 'color' ? exportSettings.padColor : 'rgba(255, 255, 255, 0.35)';
+      ctx.globalAlpha = 0.6;
+      ctx.beginPath();
+      ctx.rect(cropX, cropY, cropW, cropH);
+      ctx.rect(-displayCrop.width / 2, -displayCrop.height / 2, displayCrop.width, displayCrop.height);
+      ctx.fill('evenodd');
+      ctx.globalAlpha = 1;
+    }
+
     // Draw crop border
     ctx.strokeStyle = 'hsl(199, 89%, 48%)';
     ctx.lineWidth = 2;
@@ -141,17 +185,51 @@ export function CropOverlay({
         ctx.stroke();
       });
     }
-  }, [containerWidth, containerHeight, displayCrop, imageOffset, showRuleOfThirds, interactive]);
+
+    // Stretching changes the aspect, which the frame alone can't show
+    if (exportSettings?.resizeMode === 'stretch') {
+      ctx.font = '11px sans-serif';
+      ctx.fillStyle = 'hsl(199, 89%, 48%)';
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.translate(cropX + cropW / 2, cropY + cropH / 2);
+      // Undo the canvas mirroring so the label stays readable
+      ctx.scale(cropState.flipX ? -1 : 1, cropState.flipY ? -1 : 1);
+      ctx.fillText(`Stretched to ${exportSettings.targetWidth} × ${exportSettings.targetHeight}`, 0, 0);
+    }
+
+    ctx.restore();
+  }, [containerWidth, containerHeight, displayCrop, imageOffset, showRuleOfThirds, interactive, exportSettings, cropState.flipX, cropState.flipY]);
 
   return (
     <canvas
       ref={canvasRef}
       className="absolute inset-0 pointer-events-none"
-      style={{ width: containerWidth, height: containerHeight }}
+      style={{
+        width: containerWidth,
+        height: containerHeight,
+        // Mirrored together with the thumbnail so the preview matches the output
+        transform: getFlipTransform(cropState),
+      }}
     />
   );
 }
 
+function getCropRectFromCalculation(
+  imageWidth: number,
+  imageHeight: number,
+  cropState: CropState
+) {
+  const calc = calculateCrop(imageWidth, imageHeight, cropState);
+  return {
+    x: calc.cropX,
+    y: calc.cropY,
+    width: calc.cropWidth,
+    height: calc.cropHeight,
+    rotation: calc.rotation,
+  };
+}
+
 function createStripesPattern(ctx: CanvasRenderingContext2D): CanvasPattern | null {
   const patternCanvas = document.createElement('canvas');
   patternCanvas.width = 8;
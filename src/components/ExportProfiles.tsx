@@ -0,0 +1,244 @@
+import { Layers, Plus, Trash2 } from 'lucide-react';
+import type { ExportFormat, ExportProfile, SizeMode } from '@/types/image';
+import { useApp } from '@/context/AppContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { EXPORT_FORMATS, FORMAT_INFO } from '@/lib/encoders';
+import { createProfile, generateProfileId, PROFILE_PRESETS } from '@/lib/exportProfiles';
+
+const SIZE_MODE_LABELS: Record<SizeMode, string> = {
+  exact: 'Exact size',
+  width: 'Width',
+  height: 'Height',
+  longest: 'Longest edge',
+  shortest: 'Shortest edge',
+  percent: 'Percent',
+};
+
+/**
+ * Extra output sizes: each profile exports every image again into its own folder
+ */
+export function ExportProfiles() {
+  const { state, updateExportSettings } = useApp();
+  const { exportSettings } = state.settings;
+  const { profiles } = exportSettings;
+
+  const setProfiles = (next: ExportProfile[]) => {
+    updateExportSettings({ profiles: next });
+  };
+
+  const updateProfile = (id: string, updates: Partial<ExportProfile>) => {
+    setProfiles(profiles.map((profile) => (profile.id === id ? { ...profile, ...updates } : profile)));
+  };
+
+  const addProfile = () => {
+    setProfiles([...profiles, createProfile(exportSettings, profiles.length)]);
+  };
+
+  const removeProfile = (id: string) => {
+    setProfiles(profiles.filter((profile) => profile.id !== id));
+  };
+
+  const addPreset = (index: number) => {
+    const preset = PROFILE_PRESETS[index];
+    setProfiles([
+      ...profiles,
+      ...preset.profiles.map((profile) => ({ ...profile, id: generateProfileId() })),
+    ]);
+  };
+
+  const parsePositive = (value: string) => {
+    const parsed = parseInt(value, 10);
+    return !isNaN(parsed) && parsed > 0 ? parsed : null;
+  };
+
+  return (
+    <div className="space-y-3">
+      {profiles.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          Export several sizes or aspects at once. Each profile gets its own folder in the ZIP and
+          replaces the single output size above.
+        </p>
+      ) : (
+        profiles.map((profile) => (
+          <div key={profile.id} className="rounded-md border border-border p-2 space-y-2">
+            <div className="flex items-center gap-2">
+              <Layers className="w-3.5 h-3.5 text-muted-foreground shrink-0" />
+              <Input
+                value={profile.name}
+                onChange={(e) => updateProfile(profile.id, { name: e.target.value })}
+                className="h-7 text-xs"
+                aria-label="Profile name"
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 shrink-0"
+                onClick={() => removeProfile(profile.id)}
+                title="Remove profile"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </Button>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <Select
+                value={profile.sizeMode}
+                onValueChange={(value: SizeMode) => updateProfile(profile.id, { sizeMode: value })}
+              >
+                <SelectTrigger className="h-7 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(SIZE_MODE_LABELS).map(([mode, label]) => (
+                    <SelectItem key={mode} value={mode}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              {profile.sizeMode === 'exact' && (
+                <div className="flex items-center gap-1">
+                  <Input
+                    type="number"
+                    value={profile.targetWidth}
+                    onChange={(e) => {
+                      const value = parsePositive(e.target.value);
+                      if (value) updateProfile(profile.id, { targetWidth: value });
+                    }}
+                    className="h-7 text-xs px-1.5"
+                    aria-label="Width"
+                  />
+                  <span className="text-xs text-muted-foreground">×</span>
+                  <Input
+                    type="number"
+                    value={profile.targetHeight}
+                    onChange={(e) => {
+                      const value = parsePositive(e.target.value);
+                      if (value) updateProfile(profile.id, { targetHeight: value });
+                    }}
+                    className="h-7 text-xs px-1.5"
+                    aria-label="Height"
+                  />
+                </div>
+              )}
+              {profile.sizeMode === 'width' && (
+                <Input
+                  type="number"
+                  value={profile.targetWidth}
+                  onChange={(e) => {
+                    const value = parsePositive(e.target.value);
+                    if (value) updateProfile(profile.id, { targetWidth: value });
+                  }}
+                  className="h-7 text-xs"
+                  aria-label="Width"
+                />
+              )}
+              {profile.sizeMode === 'height' && (
+                <Input
+                  type="number"
+                  value={profile.targetHeight}
+                  onChange={(e) => {
+                    const value = parsePositive(e.target.value);
+                    if (value) updateProfile(profile.id, { targetHeight: value });
+                  }}
+                  className="h-7 text-xs"
+                  aria-label="Height"
+                />
+              )}
+              {(profile.sizeMode === 'longest' || profile.sizeMode === 'shortest') && (
+                <Input
+                  type="number"
+                  value={profile.edgeSize}
+                  onChange={(e) => {
+                    const value = parsePositive(e.target.value);
+                    if (value) updateProfile(profile.id, { edgeSize: value });
+                  }}
+                  className="h-7 text-xs"
+                  aria-label="Edge size"
+                />
+              )}
+              {profile.sizeMode === 'percent' && (
+                <Input
+                  type="number"
+                  value={profile.scalePercent}
+                  onChange={(e) => {
+                    const value = parsePositive(e.target.value);
+                    if (value) updateProfile(profile.id, { scalePercent: value });
+                  }}
+                  className="h-7 text-xs"
+                  aria-label="Percent"
+                />
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <Select
+                value={profile.format}
+                onValueChange={(value: ExportFormat) => updateProfile(profile.id, { format: value })}
+              >
+                <SelectTrigger className="h-7 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPORT_FORMATS.map((format) => (
+                    <SelectItem key={format} value={format}>
+                      {FORMAT_INFO[format].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {FORMAT_INFO[profile.format].lossy && (
+                <div className="flex items-center gap-1">
+                  <Input
+                    type="number"
+                    value={profile.quality}
+                    min={1}
+                    max={100}
+                    onChange={(e) => {
+                      const value = parsePositive(e.target.value);
+                      if (value) updateProfile(profile.id, { quality: Math.min(100, value) });
+                    }}
+                    className="h-7 text-xs"
+                    aria-label="Quality"
+                  />
+                  <span className="text-xs text-muted-foreground">%</span>
+                </div>
+              )}
+            </div>
+
+            <div>
+              <Label className="text-[10px] text-muted-foreground">Filename template</Label>
+              <Input
+                value={profile.filenameTemplate}
+                onChange={(e) => updateProfile(profile.id, { filenameTemplate: e.target.value })}
+                className="h-7 text-xs font-mono"
+              />
+            </div>
+          </div>
+        ))
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <Button variant="outline" size="sm" className="gap-1.5" onClick={addProfile}>
+          <Plus className="w-3.5 h-3.5" />
+          Add profile
+        </Button>
+        {PROFILE_PRESETS.map((preset, index) => (
+          <Button
+            key={preset.label}
+            variant="ghost"
+            size="sm"
+            className="text-xs"
+            onClick={() => addPreset(index)}
+          >
+            + {preset.label}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+}
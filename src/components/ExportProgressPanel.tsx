@@ -0,0 +1,49 @@
+import { Check, Circle, Loader2, X } from 'lucide-react';
+import type { ExportItemState, ExportProgress } from '@/types/image';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+
+interface ExportProgressPanelProps {
+  progress: ExportProgress;
+  onCancel: () => void;
+}
+
+const STATE_ICONS: Record<ExportItemState, JSX.Element> = {
+  queued: <Circle className="w-3 h-3 text-muted-foreground" />,
+  processing: <Loader2 className="w-3 h-3 animate-spin text-primary" />,
+  done: <Check className="w-3 h-3 text-primary" />,
+  failed: <X className="w-3 h-3 text-destructive" />,
+};
+
+/**
+ * Progress of a running export with a per-file status list and a Cancel button
+ */
+export function ExportProgressPanel({ progress, onCancel }: ExportProgressPanelProps) {
+  const percent = progress.total > 0 ? (progress.done / progress.total) * 100 : 0;
+
+  return (
+    <div className="rounded-md border border-border bg-muted/30 text-xs">
+      <div className="space-y-1.5 px-2 py-1.5 border-b border-border">
+        <div className="flex items-center justify-between">
+          <span className="font-medium">
+            Exporting {progress.done} / {progress.total}
+          </span>
+          <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={onCancel}>
+            Cancel
+          </Button>
+        </div>
+        <Progress value={percent} className="h-1.5" />
+      </div>
+      <ul className="max-h-40 overflow-y-auto divide-y divide-border">
+        {progress.items.map((item, index) => (
+          <li key={index} className="flex items-center gap-2 px-2 py-1">
+            {STATE_ICONS[item.state]}
+            <span className={`truncate ${item.state === 'queued' ? 'text-muted-foreground' : ''}`}>
+              {item.label}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import { TriangleAlert, X } from 'lucide-react';
+import type { ExportResult } from '@/types/image';
+import { formatFileSize } from '@/lib/imageUtils';
+import { Button } from '@/components/ui/button';
+
+interface ExportReportProps {
+  results: ExportResult[];
+  maxFileSizeKB: number | null; // null when the export had no size limit
+  onDismiss: () => void;
+}
+
+/**
+ * Per-image summary of the last export: size, chosen quality, size limit
+ * misses and, for the optimized encoder, savings over the browser encoder
+ */
+export function ExportReport({ results, maxFileSizeKB, onDismiss }: ExportReportProps) {
+  const overLimit = results.filter((result) => result.overSizeLimit).length;
+  const totalBytes = results.reduce((sum, result) => sum + result.bytes, 0);
+  const compared = results.filter((result) => result.browserBytes !== null);
+  const savedBytes = compared.reduce((sum, result) => sum + result.browserBytes - result.bytes, 0);
+  const comparedBrowserBytes = compared.reduce((sum, result) => sum + result.browserBytes, 0);
+
+  return (
+    <div className="rounded-md border border-border bg-muted/30 text-xs">
+      <div className="flex items-center justify-between px-2 py-1.5 border-b border-border">
+        <span className="font-medium">
+          Last export · {formatFileSize(totalBytes)}
+          {compared.length > 0 && (
+            <span className="text-muted-foreground">
+              {' '}· {formatSavings(savedBytes, comparedBrowserBytes)} vs browser
+            </span>
+          )}
+          {maxFileSizeKB !== null && overLimit > 0 && (
+            <span className="text-destructive"> · {overLimit} over {maxFileSizeKB} KB</span>
+          )}
+        </span>
+        <Button variant="ghost" size="icon" className="h-5 w-5" onClick={onDismiss}>
+          <X className="w-3 h-3" />
+        </Button>
+      </div>
+      <ul className="max-h-40 overflow-y-auto divide-y divide-border">
+        {results.map((result) => (
+          <li
+            key={result.filename}
+            className="flex items-center justify-between gap-2 px-2 py-1"
+            title={
+              result.skipped
+                ? 'Not written: the folder already had this file'
+                : result.overSizeLimit
+                  ? 'Still over the size limit at the lowest quality'
+                  : undefined
+            }
+          >
+            <span className="truncate">{result.filename}</span>
+            <span
+              className={`flex items-center gap-1 shrink-0 ${
+                result.overSizeLimit ? 'text-destructive' : 'text-muted-foreground'
+              }`}
+            >
+              {result.overSizeLimit && <TriangleAlert className="w-3 h-3" />}
+              {result.skipped && 'skipped · '}
+              {formatFileSize(result.bytes)}
+              {result.quality !== null && ` · q${result.quality}`}
+              {result.browserBytes !== null &&
+                ` · ${formatSavings(result.browserBytes - result.bytes, result.browserBytes)}`}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+// e.g. "−42.1 KB (31%)"; negative savings show as "+"
+function formatSavings(saved: number, baseline: number): string {
+  const percent = baseline > 0 ? Math.round((Math.abs(saved) / baseline) * 100) : 0;
+  return `${saved >= 0 ? '−' : '+'}${formatFileSize(Math.abs(saved))} (${percent}%)`;
+}
@@ -0,0 +1,77 @@
+import { useMemo } from 'react';
+import { useApp } from '@/context/AppContext';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { previewExportFilenames } from '@/lib/exportImages';
+import { DEFAULT_FILENAME_TEMPLATE, FILENAME_TOKENS } from '@/lib/filenameTemplate';
+
+const PREVIEW_COUNT = 3;
+
+/**
+ * Filename template input with token shortcuts and a live preview of the first names
+ */
+export function FilenameTemplateField() {
+  const { state, updateExportSettings } = useApp();
+  const { exportSettings } = state.settings;
+
+  const previews = useMemo(
+    () => previewExportFilenames(state.images, exportSettings),
+    [state.images, exportSettings]
+  );
+  const renamedCount = previews.filter((preview) => preview.renamed).length;
+
+  const insertToken = (token: string) => {
+    updateExportSettings({ filenameTemplate: `${exportSettings.filenameTemplate}${token}` });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div>
+        <Label htmlFor="filename-template" className="text-xs text-muted-foreground">
+          Filename template
+        </Label>
+        <Input
+          id="filename-template"
+          value={exportSettings.filenameTemplate}
+          onChange={(e) => updateExportSettings({ filenameTemplate: e.target.value })}
+          className="h-9 mt-1 font-mono text-xs"
+          placeholder={DEFAULT_FILENAME_TEMPLATE}
+        />
+      </div>
+
+      <div className="flex flex-wrap gap-1">
+        {FILENAME_TOKENS.map(({ token, description }) => (
+          <button
+            key={token}
+            type="button"
+            onClick={() => insertToken(token)}
+            title={description}
+            className="px-1.5 py-0.5 rounded bg-muted text-[10px] font-mono text-muted-foreground hover:text-foreground hover:bg-muted/70 transition-colors"
+          >
+            {token}
+          </button>
+        ))}
+      </div>
+
+      {previews.length > 0 && (
+        <div className="rounded-md bg-muted/30 px-2 py-1.5 text-xs font-mono space-y-0.5">
+          {previews.slice(0, PREVIEW_COUNT).map((preview, index) => (
+            <div key={index} className="truncate" title={preview.filename}>
+              {preview.filename}
+            </div>
+          ))}
+          {previews.length > PREVIEW_COUNT && (
+            <div className="text-muted-foreground">
+              … {previews.length - PREVIEW_COUNT} more
+            </div>
+          )}
+          {renamedCount > 0 && (
+            <div className="font-sans text-warning">
+              {renamedCount} duplicate {renamedCount === 1 ? 'name' : 'names'} will get a -2, -3… suffix
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,10 +1,12 @@
 import { useState, useRef, useEffect } from 'react';
-import { Pencil, Trash2, Loader2, Sparkles } from 'lucide-react';
+import { Pencil, Trash2, Loader2, Sparkles, TriangleAlert } from 'lucide-react';
 import type { ImageFile } from '@/types/image';
 import { useApp } from '@/context/AppContext';
 import { CropOverlay } from './CropOverlay';
 import { Button } from '@/components/ui/button';
 import { formatFileSize } from '@/lib/imageUtils';
+import { getFlipTransform } from '@/lib/cropMath';
+import { getImageUpscaleFactor, UPSCALE_TOLERANCE } from '@/lib/outputLayout';
 
 interface ImageCardProps {
   image: ImageFile;
@@ -15,6 +17,13 @@ export function ImageCard({ image }: ImageCardProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const [dimensions, setDimensions] = useState({ width: 0, height: 0 });
 
+  const upscaleFactor = getImageUpscaleFactor(
+    image.originalWidth,
+    image.originalHeight,
+    image.cropState,
+    state.settings.exportSettings
+  );
+
   // Measure container
   useEffect(() => {
     const container = containerRef.current;
@@ -45,6 +54,7 @@ export function ImageCard({ image }: ImageCardProps) {
           src={image.thumbnail}
           alt={image.name}
           className="absolute inset-0 w-full h-full object-contain"
+          style={{ transform: getFlipTransform(image.cropState) }}
           draggable={false}
         />
 
@@ -57,6 +67,7 @@ export function ImageCard({ image }: ImageCardProps) {
             containerWidth={dimensions.width}
             containerHeight={dimensions.height}
             showRuleOfThirds={state.settings.showRuleOfThirds}
+            exportSettings={state.settings.exportSettings}
           />
         )}
 
@@ -82,6 +93,23 @@ export function ImageCard({ image }: ImageCardProps) {
           </div>
         )}
 
+        {/* Low resolution badge */}
+        {upscaleFactor > UPSCALE_TOLERANCE && (
+          <div className="absolute top-2 right-2">
+            <div
+              className="flex items-center gap-1 bg-destructive/90 text-destructive-foreground px-2 py-1 rounded text-xs font-medium"
+              title={
+                state.settings.exportSettings.upscaleMode === 'allow'
+                  ? `Source is ${upscaleFactor.toFixed(1)}× smaller than the output and will be upscaled`
+                  : 'Source is smaller than the output; exported at native size'
+              }
+            >
+              <TriangleAlert className="w-3 h-3" />
+              Low res
+            </div>
+          </div>
+        )}
+
         {/* Hover actions */}
         <div className="absolute inset-0 flex items-center justify-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity bg-background/30">
           <Button
@@ -106,7 +134,7 @@ export function ImageCard({ image }: ImageCardProps) {
 
       {/* Info footer */}
       <div className="p-2 border-t border-border">
-        <p className="text-sm font-medium truncate" title={image.name}>
+        <p className="text-sm font-medium truncate" title={image.relativePath || image.name}>
           {image.name}
         </p>
         <div className="flex items-center justify-between text-xs text-muted-foreground mt-0.5">
@@ -1,10 +1,31 @@
+import { useMemo } from 'react';
+import { Folder } from 'lucide-react';
+import type { ImageFile } from '@/types/image';
 import { useApp } from '@/context/AppContext';
+import { getImageFolder } from '@/lib/imageUtils';
 import { ImageCard } from './ImageCard';
 import { ImageUploader } from './ImageUploader';
 
+const GRID_CLASS = 'grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-3';
+
 export function ImageGrid() {
   const { state } = useApp();
 
+  // Images from folder imports are grouped by folder, in import order
+  const groups = useMemo(() => {
+    const byFolder = new Map<string, ImageFile[]>();
+    for (const image of state.images) {
+      const folder = getImageFolder(image);
+      const group = byFolder.get(folder);
+      if (group) {
+        group.push(image);
+      } else {
+        byFolder.set(folder, [image]);
+      }
+    }
+    return [...byFolder.entries()].map(([folder, images]) => ({ folder, images }));
+  }, [state.images]);
+
   if (state.images.length === 0) {
     return <ImageUploader />;
   }
@@ -15,11 +36,28 @@ export function ImageGrid() {
       <ImageUploader />
 
       {/* Image grid */}
-      <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-3">
-        {state.images.map((image) => (
-          <ImageCard key={image.id} image={image} />
-        ))}
-      </div>
+      {groups.length === 1 && !groups[0].folder ? (
+        <div className={GRID_CLASS}>
+          {state.images.map((image) => (
+            <ImageCard key={image.id} image={image} />
+          ))}
+        </div>
+      ) : (
+        groups.map(({ folder, images }) => (
+          <section key={folder} className="space-y-2">
+            <h3 className="flex items-center gap-1.5 text-sm font-medium text-muted-foreground">
+              <Folder className="w-4 h-4" />
+              <span className="truncate">{folder || 'Individual files'}</span>
+              <span className="text-xs">({images.length})</span>
+            </h3>
+            <div className={GRID_CLASS}>
+              {images.map((image) => (
+                <ImageCard key={image.id} image={image} />
+              ))}
+            </div>
+          </section>
+        ))
+      )}
     </div>
   );
 }
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useRef, useState } from 'react';
 import {
   Settings2,
   Download,
@@ -13,6 +13,8 @@ import {
   FileImage,
   Loader2,
   Unlink,
+  Layers,
+  DatabaseZap,
 } from 'lucide-react';
 import { useApp } from '@/context/AppContext';
 import { useAspectRatio } from '@/hooks/useAspectRatio';
@@ -24,6 +26,34 @@ import { Switch } from '@/components/ui/switch';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Separator } from '@/components/ui/separator';
 import { exportImages } from '@/lib/exportImages';
+import { isAbortError } from '@/lib/exportWorkerPool';
+import { supportsZipStreaming } from '@/lib/zipOutput';
+import { supportsFolderExport } from '@/lib/folderOutput';
+import { clearSmartCropCache } from '@/lib/smartCropWorker';
+import { exportsToFolder } from '@/lib/exportOutput';
+import { ExportReport } from './ExportReport';
+import { ExportProgressPanel } from './ExportProgressPanel';
+import { FilenameTemplateField } from './FilenameTemplateField';
+import { ExportProfiles } from './ExportProfiles';
+import { SmartCropOptionsPanel } from './SmartCropOptionsPanel';
+import type {
+  ResizeMode,
+  PadBackground,
+  SizeMode,
+  UpscaleMode,
+  ResampleFilter,
+  ExportFormat,
+  TiffCompression,
+  EncoderBackend,
+  ChromaSubsampling,
+  ExportResult,
+  ExportProgress,
+  ExportDestination,
+  ExistingFilePolicy,
+  FolderStructure,
+} from '@/types/image';
+import { describeOutputSize } from '@/lib/outputLayout';
+import { EXPORT_FORMATS, FORMAT_INFO, usesOptimizedEncoder } from '@/lib/encoders';
 import { toast } from 'sonner';
 
 export function Sidebar() {
@@ -35,8 +65,29 @@ export function Sidebar() {
     applyCropToAll,
     recomputeSmartCrop,
   } = useApp();
-  const { width, height, aspectLocked, setWidth, setHeight, toggleAspectLock } = useAspectRatio();
+  const {
+    width,
+    height,
+    aspectLocked,
+    sizeMode,
+    edgeSize,
+    scalePercent,
+    setWidth,
+    setHeight,
+    toggleAspectLock,
+    setSizeMode,
+    setEdgeSize,
+    setScalePercent,
+  } = useAspectRatio();
+  const { exportSettings } = state.settings;
+  const toFolder = exportsToFolder(exportSettings);
   const [isExporting, setIsExporting] = useState(false);
+  const [exportProgress, setExportProgress] = useState<ExportProgress | null>(null);
+  const exportAbortRef = useRef<AbortController | null>(null);
+  const [exportReport, setExportReport] = useState<{
+    results: ExportResult[];
+    maxFileSizeKB: number | null;
+  } | null>(null);
 
   const handleWidthChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = parseInt(e.target.value, 10);
@@ -58,18 +109,49 @@ export function Sidebar() {
       return;
     }
 
+    const controller = new AbortController();
+    exportAbortRef.current = controller;
     setIsExporting(true);
     try {
-      await exportImages(state.images, state.settings.exportSettings);
-      toast.success(`Exported ${state.images.length} images`);
+      const results = await exportImages(state.images, exportSettings, {
+        signal: controller.signal,
+        onProgress: setExportProgress,
+      });
+      setExportReport({
+        results,
+        maxFileSizeKB: exportSettings.limitFileSize ? exportSettings.maxFileSizeKB : null,
+      });
+
+      const overLimit = results.filter((result) => result.overSizeLimit).length;
+      const skipped = results.filter((result) => result.skipped).length;
+      const exported = results.length - skipped;
+      const skippedNote =
+        skipped > 0 ? `; skipped ${skipped} existing ${skipped === 1 ? 'file' : 'files'}` : '';
+      if (overLimit > 0) {
+        toast.warning(
+          `Exported ${exported} images; ${overLimit} could not get under ${exportSettings.maxFileSizeKB} KB${skippedNote}`
+        );
+      } else {
+        toast.success(`Exported ${exported} images${skippedNote}`);
+      }
     } catch (error) {
-      console.error('Export failed:', error);
-      toast.error('Export failed. Please try again.');
+      if (isAbortError(error)) {
+        toast.info('Export cancelled');
+      } else {
+        console.error('Export failed:', error);
+        toast.error('Export failed. Please try again.');
+      }
     } finally {
+      exportAbortRef.current = null;
       setIsExporting(false);
+      setExportProgress(null);
     }
   };
 
+  const handleCancelExport = () => {
+    exportAbortRef.current?.abort();
+  };
+
   const handleApplyToAll = () => {
     if (state.images.length === 0) return;
     const firstImage = state.images[0];
@@ -83,6 +165,11 @@ export function Sidebar() {
     toast.success('Recomputed smart crop for all images');
   };
 
+  const handleClearAnalysisCache = async () => {
+    await clearSmartCropCache();
+    toast.success('Analysis cache cleared');
+  };
+
   const handleClearWorkspace = () => {
     if (state.images.length === 0) return;
     clearImages();
@@ -113,8 +200,101 @@ export function Sidebar() {
           Output Size
         </h3>
 
-        <div className="flex items-end gap-2">
-          <div className="flex-1">
+        <div className="mb-3">
+          <Label htmlFor="size-mode" className="text-xs text-muted-foreground">
+            Sizing
+          </Label>
+          <Select value={sizeMode} onValueChange={(value: SizeMode) => setSizeMode(value)}>
+            <SelectTrigger id="size-mode" className="h-9 mt-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="exact">Exact size</SelectItem>
+              <SelectItem value="width">Fixed width, auto height</SelectItem>
+              <SelectItem value="height">Fixed height, auto width</SelectItem>
+              <SelectItem value="longest">Longest edge</SelectItem>
+              <SelectItem value="shortest">Shortest edge</SelectItem>
+              <SelectItem value="percent">Percentage of original</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {sizeMode === 'exact' && (
+          <>
+            <div className="flex items-end gap-2">
+              <div className="flex-1">
+                <Label htmlFor="width" className="text-xs text-muted-foreground">
+                  Width
+                </Label>
+                <Input
+                  id="width"
+                  type="number"
+                  value={width}
+                  onChange={handleWidthChange}
+                  className="h-9 mt-1"
+                  min={1}
+                />
+              </div>
+
+              <Button
+                variant={aspectLocked ? 'default' : 'outline'}
+                size="icon"
+                className="h-9 w-9 shrink-0"
+                onClick={toggleAspectLock}
+                title={aspectLocked ? 'Unlock aspect ratio' : 'Lock aspect ratio'}
+              >
+                {aspectLocked ? (
+                  <Link className="w-4 h-4" />
+                ) : (
+                  <Unlink className="w-4 h-4" />
+                )}
+              </Button>
+
+              <div className="flex-1">
+                <Label htmlFor="height" className="text-xs text-muted-foreground">
+                  Height
+                </Label>
+                <Input
+                  id="height"
+                  type="number"
+                  value={height}
+                  onChange={handleHeightChange}
+                  className="h-9 mt-1"
+                  min={1}
+                />
+              </div>
+            </div>
+
+            {/* Aspect presets */}
+            <div className="mt-3">
+              <Label className="text-xs text-muted-foreground">Presets</Label>
+              <Select
+                value=""
+                onValueChange={(value) => {
+                  const preset = aspectPresets.find((p) => p.value.toString() === value);
+                  if (preset) {
+                    const newHeight = Math.round(width / preset.value);
+                    updateExportSettings({ targetHeight: newHeight });
+                  }
+                }}
+              >
+                <SelectTrigger className="h-9 mt-1">
+                  <SelectValue placeholder="Choose aspect ratio" />
+                </SelectTrigger>
+                <SelectContent>
+                  {aspectPresets.map((preset) => (
+                    <SelectItem key={preset.label} value={preset.value.toString()}>
+                      {preset.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </>
+        )}
+
+        {sizeMode === 'width' && (
+          <div>
             <Label htmlFor="width" className="text-xs text-muted-foreground">
               Width
             </Label>
@@ -127,22 +307,10 @@ export function Sidebar() {
               min={1}
             />
           </div>
+        )}
 
-          <Button
-            variant={aspectLocked ? 'default' : 'outline'}
-            size="icon"
-            className="h-9 w-9 shrink-0"
-            onClick={toggleAspectLock}
-            title={aspectLocked ? 'Unlock aspect ratio' : 'Lock aspect ratio'}
-          >
-            {aspectLocked ? (
-              <Link className="w-4 h-4" />
-            ) : (
-              <Unlink className="w-4 h-4" />
-            )}
-          </Button>
-
-          <div className="flex-1">
+        {sizeMode === 'height' && (
+          <div>
             <Label htmlFor="height" className="text-xs text-muted-foreground">
               Height
             </Label>
@@ -155,30 +323,115 @@ export function Sidebar() {
               min={1}
             />
           </div>
-        </div>
+        )}
+
+        {(sizeMode === 'longest' || sizeMode === 'shortest') && (
+          <div>
+            <Label htmlFor="edge-size" className="text-xs text-muted-foreground">
+              {sizeMode === 'longest' ? 'Longest edge' : 'Shortest edge'} (px)
+            </Label>
+            <Input
+              id="edge-size"
+              type="number"
+              value={edgeSize}
+              onChange={(e) => {
+                const value = parseInt(e.target.value, 10);
+                if (!isNaN(value) && value > 0) setEdgeSize(value);
+              }}
+              className="h-9 mt-1"
+              min={1}
+            />
+          </div>
+        )}
+
+        {sizeMode === 'percent' && (
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <Label className="text-xs text-muted-foreground">Scale</Label>
+              <span className="text-xs text-muted-foreground">{scalePercent}%</span>
+            </div>
+            <Slider
+              value={[scalePercent]}
+              min={1}
+              max={200}
+              step={1}
+              onValueChange={(value) => setScalePercent(value[0])}
+            />
+          </div>
+        )}
+
+        {/* Resize mode */}
+        {sizeMode === 'exact' && (
+          <div className="mt-3">
+            <Label htmlFor="resize-mode" className="text-xs text-muted-foreground">
+              Resize mode
+            </Label>
+            <Select
+              value={exportSettings.resizeMode}
+              onValueChange={(value: ResizeMode) => updateExportSettings({ resizeMode: value })}
+            >
+              <SelectTrigger id="resize-mode" className="h-9 mt-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="cover" disabled={exportSettings.cropMode === 'free'}>
+                  Crop to fill
+                </SelectItem>
+                <SelectItem value="contain">Fit inside</SelectItem>
+                <SelectItem value="pad">Pad / letterbox</SelectItem>
+                <SelectItem value="stretch">Stretch</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {sizeMode === 'exact' && exportSettings.resizeMode === 'pad' && (
+          <div className="mt-3 flex items-end gap-2">
+            <div className="flex-1">
+              <Label htmlFor="pad-background" className="text-xs text-muted-foreground">
+                Background
+              </Label>
+              <Select
+                value={exportSettings.padBackground}
+                onValueChange={(value: PadBackground) => updateExportSettings({ padBackground: value })}
+              >
+                <SelectTrigger id="pad-background" className="h-9 mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="color">Solid color</SelectItem>
+                  <SelectItem value="blur">Blurred image</SelectItem>
+                  <SelectItem value="transparent">Transparent</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {exportSettings.padBackground !== 'transparent' && (
+              <Input
+                type="color"
+                value={exportSettings.padColor}
+                onChange={(e) => updateExportSettings({ padColor: e.target.value })}
+                className="h-9 w-12 p-1 shrink-0"
+                title="Pad color"
+              />
+            )}
+          </div>
+        )}
 
-        {/* Aspect presets */}
         <div className="mt-3">
-          <Label className="text-xs text-muted-foreground">Presets</Label>
+          <Label htmlFor="upscale-mode" className="text-xs text-muted-foreground">
+            Upscaling
+          </Label>
           <Select
-            value=""
-            onValueChange={(value) => {
-              const preset = aspectPresets.find((p) => p.value.toString() === value);
-              if (preset) {
-                const newHeight = Math.round(width / preset.value);
-                updateExportSettings({ targetHeight: newHeight });
-              }
-            }}
+            value={exportSettings.upscaleMode}
+            onValueChange={(value: UpscaleMode) => updateExportSettings({ upscaleMode: value })}
           >
-            <SelectTrigger className="h-9 mt-1">
-              <SelectValue placeholder="Choose aspect ratio" />
+            <SelectTrigger id="upscale-mode" className="h-9 mt-1">
+              <SelectValue />
             </SelectTrigger>
             <SelectContent>
-              {aspectPresets.map((preset) => (
-                <SelectItem key={preset.label} value={preset.value.toString()}>
-                  {preset.label}
-                </SelectItem>
-              ))}
+              <SelectItem value="allow">Allow upscaling</SelectItem>
+              <SelectItem value="limit">Never upscale (cap at native size)</SelectItem>
+              <SelectItem value="pad">Never upscale (pad to output size)</SelectItem>
             </SelectContent>
           </Select>
         </div>
@@ -205,6 +458,23 @@ export function Sidebar() {
             />
           </div>
 
+          <div className="flex items-center justify-between">
+            <Label htmlFor="free-crop" className="text-sm cursor-pointer">
+              Free-form crop
+            </Label>
+            <Switch
+              id="free-crop"
+              checked={state.settings.exportSettings.cropMode === 'free'}
+              onCheckedChange={(checked) =>
+                updateExportSettings(
+                  checked && exportSettings.resizeMode === 'cover'
+                    ? { cropMode: 'free', resizeMode: 'contain' }
+                    : { cropMode: checked ? 'free' : 'locked' }
+                )
+              }
+            />
+          </div>
+
           <div className="flex items-center justify-between">
             <Label htmlFor="rule-of-thirds" className="text-sm cursor-pointer">
               Show rule of thirds
@@ -228,17 +498,33 @@ export function Sidebar() {
             />
           </div>
 
+          {state.settings.enableSmartCrop && <SmartCropOptionsPanel />}
+
           {state.settings.enableSmartCrop && (
-            <Button
-              variant="outline"
-              size="sm"
-              className="w-full gap-2"
-              onClick={handleRecomputeSmartCrop}
-              disabled={state.images.length === 0}
-            >
-              <RefreshCw className="w-4 h-4" />
-              Recompute all
-            </Button>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                className="flex-1 gap-2"
+                onClick={handleRecomputeSmartCrop}
+                disabled={state.images.length === 0 || !!state.smartCropProgress}
+              >
+                <RefreshCw className={`w-4 h-4 ${state.smartCropProgress ? 'animate-spin' : ''}`} />
+                {state.smartCropProgress
+                  ? `Analyzing ${state.smartCropProgress.completed}/${state.smartCropProgress.total}`
+                  : 'Recompute all'}
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="flex-1 gap-2"
+                onClick={handleClearAnalysisCache}
+                title="Forget smart crop results saved from earlier sessions"
+              >
+                <DatabaseZap className="w-4 h-4" />
+                Clear cache
+              </Button>
+            </div>
           )}
 
           <Button
@@ -269,8 +555,8 @@ export function Sidebar() {
               Format
             </Label>
             <Select
-              value={state.settings.exportSettings.format}
-              onValueChange={(value: 'jpeg' | 'png' | 'webp') =>
+              value={exportSettings.format}
+              onValueChange={(value: ExportFormat) =>
                 updateExportSettings({ format: value })
               }
             >
@@ -278,14 +564,241 @@ export function Sidebar() {
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="jpeg">JPEG</SelectItem>
-                <SelectItem value="png">PNG</SelectItem>
-                <SelectItem value="webp">WebP</SelectItem>
+                {EXPORT_FORMATS.map((format) => (
+                  <SelectItem key={format} value={format}>
+                    {FORMAT_INFO[format].label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {exportSettings.format === 'avif' && (
+            <div>
+              <div className="flex items-center justify-between mb-1">
+                <Label className="text-xs text-muted-foreground">Encoder speed</Label>
+                <span className="text-xs text-muted-foreground">
+                  {exportSettings.avifSpeed}
+                </span>
+              </div>
+              <Slider
+                value={[exportSettings.avifSpeed]}
+                min={0}
+                max={10}
+                step={1}
+                onValueChange={(value) => updateExportSettings({ avifSpeed: value[0] })}
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                Lower is slower but smaller
+              </p>
+            </div>
+          )}
+
+          {exportSettings.format === 'tiff' && (
+            <div>
+              <Label htmlFor="tiff-compression" className="text-xs text-muted-foreground">
+                Compression
+              </Label>
+              <Select
+                value={exportSettings.tiffCompression}
+                onValueChange={(value: TiffCompression) =>
+                  updateExportSettings({ tiffCompression: value })
+                }
+              >
+                <SelectTrigger id="tiff-compression" className="h-9 mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="lzw">LZW</SelectItem>
+                  <SelectItem value="packbits">PackBits</SelectItem>
+                  <SelectItem value="none">None</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div>
+            <Label htmlFor="resample-filter" className="text-xs text-muted-foreground">
+              Resampling
+            </Label>
+            <Select
+              value={exportSettings.resampleFilter}
+              onValueChange={(value: ResampleFilter) =>
+                updateExportSettings({ resampleFilter: value })
+              }
+            >
+              <SelectTrigger id="resample-filter" className="h-9 mt-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="browser">Browser (fastest)</SelectItem>
+                <SelectItem value="bilinear">Bilinear, multi-step</SelectItem>
+                <SelectItem value="bicubic">Bicubic</SelectItem>
+                <SelectItem value="lanczos3">Lanczos3 (sharpest)</SelectItem>
               </SelectContent>
             </Select>
           </div>
 
-          {state.settings.exportSettings.format !== 'png' && (
+          <div className="flex items-center justify-between">
+            <Label htmlFor="sharpen" className="text-sm cursor-pointer">
+              Sharpen after resize
+            </Label>
+            <Switch
+              id="sharpen"
+              checked={exportSettings.sharpen}
+              onCheckedChange={(checked) => updateExportSettings({ sharpen: checked })}
+            />
+          </div>
+
+          {exportSettings.sharpen && (
+            <div className="space-y-3 pl-2 border-l border-border">
+              <div>
+                <div className="flex items-center justify-between mb-1">
+                  <Label className="text-xs text-muted-foreground">Amount</Label>
+                  <span className="text-xs text-muted-foreground">
+                    {exportSettings.sharpenAmount}%
+                  </span>
+                </div>
+                <Slider
+                  value={[exportSettings.sharpenAmount]}
+                  min={0}
+                  max={300}
+                  step={5}
+                  onValueChange={(value) => updateExportSettings({ sharpenAmount: value[0] })}
+                />
+              </div>
+              <div>
+                <div className="flex items-center justify-between mb-1">
+                  <Label className="text-xs text-muted-foreground">Radius</Label>
+                  <span className="text-xs text-muted-foreground">
+                    {exportSettings.sharpenRadius.toFixed(1)}px
+                  </span>
+                </div>
+                <Slider
+                  value={[exportSettings.sharpenRadius]}
+                  min={0.3}
+                  max={3}
+                  step={0.1}
+                  onValueChange={(value) => updateExportSettings({ sharpenRadius: value[0] })}
+                />
+              </div>
+              <div>
+                <div className="flex items-center justify-between mb-1">
+                  <Label className="text-xs text-muted-foreground">Threshold</Label>
+                  <span className="text-xs text-muted-foreground">
+                    {exportSettings.sharpenThreshold}
+                  </span>
+                </div>
+                <Slider
+                  value={[exportSettings.sharpenThreshold]}
+                  min={0}
+                  max={50}
+                  step={1}
+                  onValueChange={(value) => updateExportSettings({ sharpenThreshold: value[0] })}
+                />
+              </div>
+            </div>
+          )}
+
+          {(exportSettings.format === 'jpeg' || exportSettings.format === 'png') && (
+            <div>
+              <Label htmlFor="encoder" className="text-xs text-muted-foreground">
+                Encoder
+              </Label>
+              <Select
+                value={exportSettings.encoder}
+                onValueChange={(value: EncoderBackend) => updateExportSettings({ encoder: value })}
+              >
+                <SelectTrigger id="encoder" className="h-9 mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="browser">Browser encoder</SelectItem>
+                  <SelectItem value="optimized">
+                    Optimised encoder ({exportSettings.format === 'jpeg' ? 'mozjpeg' : 'oxipng'})
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {usesOptimizedEncoder(exportSettings) && exportSettings.format === 'jpeg' && (
+            <div className="space-y-3 pl-2 border-l border-border">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="jpeg-progressive" className="text-sm cursor-pointer">
+                  Progressive
+                </Label>
+                <Switch
+                  id="jpeg-progressive"
+                  checked={exportSettings.jpegProgressive}
+                  onCheckedChange={(checked) => updateExportSettings({ jpegProgressive: checked })}
+                />
+              </div>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="jpeg-trellis" className="text-sm cursor-pointer">
+                  Trellis quantization
+                </Label>
+                <Switch
+                  id="jpeg-trellis"
+                  checked={exportSettings.jpegTrellis}
+                  onCheckedChange={(checked) => updateExportSettings({ jpegTrellis: checked })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="chroma-subsampling" className="text-xs text-muted-foreground">
+                  Chroma subsampling
+                </Label>
+                <Select
+                  value={exportSettings.chromaSubsampling}
+                  onValueChange={(value: ChromaSubsampling) =>
+                    updateExportSettings({ chromaSubsampling: value })
+                  }
+                >
+                  <SelectTrigger id="chroma-subsampling" className="h-9 mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="420">4:2:0 (smaller)</SelectItem>
+                    <SelectItem value="444">4:4:4 (sharper color)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+
+          {usesOptimizedEncoder(exportSettings) && exportSettings.format === 'png' && (
+            <div className="space-y-3 pl-2 border-l border-border">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="png-quantize" className="text-sm cursor-pointer">
+                  Reduce colors (palette)
+                </Label>
+                <Switch
+                  id="png-quantize"
+                  checked={exportSettings.pngQuantize}
+                  onCheckedChange={(checked) => updateExportSettings({ pngQuantize: checked })}
+                />
+              </div>
+              {exportSettings.pngQuantize && (
+                <div>
+                  <div className="flex items-center justify-between mb-1">
+                    <Label className="text-xs text-muted-foreground">Colors</Label>
+                    <span className="text-xs text-muted-foreground">
+                      {exportSettings.pngColors}
+                    </span>
+                  </div>
+                  <Slider
+                    value={[exportSettings.pngColors]}
+                    min={2}
+                    max={256}
+                    step={1}
+                    onValueChange={(value) => updateExportSettings({ pngColors: value[0] })}
+                  />
+                </div>
+              )}
+            </div>
+          )}
+
+          {FORMAT_INFO[exportSettings.format].lossy && (
             <div>
               <div className="flex items-center justify-between mb-1">
                 <Label className="text-xs text-muted-foreground">Quality</Label>
@@ -303,19 +816,46 @@ export function Sidebar() {
             </div>
           )}
 
-          <div className="grid grid-cols-2 gap-2">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="limit-file-size" className="text-sm cursor-pointer">
+              Limit file size
+            </Label>
+            <Switch
+              id="limit-file-size"
+              checked={exportSettings.limitFileSize}
+              onCheckedChange={(checked) => updateExportSettings({ limitFileSize: checked })}
+            />
+          </div>
+
+          {exportSettings.limitFileSize && (
             <div>
-              <Label htmlFor="prefix" className="text-xs text-muted-foreground">
-                Prefix
+              <Label htmlFor="max-file-size" className="text-xs text-muted-foreground">
+                Max size (KB)
               </Label>
               <Input
-                id="prefix"
-                value={state.settings.exportSettings.prefix}
-                onChange={(e) => updateExportSettings({ prefix: e.target.value })}
+                id="max-file-size"
+                type="number"
+                value={exportSettings.maxFileSizeKB}
+                onChange={(e) => {
+                  const value = parseInt(e.target.value, 10);
+                  if (!isNaN(value) && value > 0) {
+                    updateExportSettings({ maxFileSizeKB: value });
+                  }
+                }}
                 className="h-9 mt-1"
-                placeholder="image-"
+                min={1}
               />
+              <p className="text-xs text-muted-foreground mt-1">
+                {!FORMAT_INFO[exportSettings.format].lossy
+                  ? `${FORMAT_INFO[exportSettings.format].label} has no quality setting, so oversized files are only reported`
+                  : `Picks the highest quality up to ${exportSettings.quality}% that fits`}
+              </p>
             </div>
+          )}
+
+          <FilenameTemplateField />
+
+          <div className="grid grid-cols-2 gap-2">
             <div>
               <Label htmlFor="start-index" className="text-xs text-muted-foreground">
                 Start #
@@ -337,6 +877,133 @@ export function Sidebar() {
 
       <Separator className="bg-sidebar-border" />
 
+      {/* Export Profiles */}
+      <div className="sidebar-section">
+        <h3 className="text-sm font-medium text-muted-foreground mb-3 flex items-center gap-2">
+          <Layers className="w-4 h-4" />
+          Export Profiles
+        </h3>
+        <ExportProfiles />
+
+        <div className="space-y-3 mt-4">
+          <div>
+            <Label htmlFor="destination" className="text-xs text-muted-foreground">
+              Save to
+            </Label>
+            <Select
+              value={toFolder ? 'folder' : 'zip'}
+              onValueChange={(value: ExportDestination) => updateExportSettings({ destination: value })}
+            >
+              <SelectTrigger id="destination" className="h-9 mt-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="zip">ZIP file</SelectItem>
+                <SelectItem value="folder" disabled={!supportsFolderExport()}>
+                  Folder{supportsFolderExport() ? '' : ' (not supported in this browser)'}
+                </SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {toFolder && (
+            <div>
+              <Label htmlFor="existing-file-policy" className="text-xs text-muted-foreground">
+                If a file already exists
+              </Label>
+              <Select
+                value={exportSettings.existingFilePolicy}
+                onValueChange={(value: ExistingFilePolicy) =>
+                  updateExportSettings({ existingFilePolicy: value })
+                }
+              >
+                <SelectTrigger id="existing-file-policy" className="h-9 mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="rename">Keep both (add -2, -3…)</SelectItem>
+                  <SelectItem value="skip">Skip</SelectItem>
+                  <SelectItem value="overwrite">Overwrite</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div>
+            <Label htmlFor="folder-structure" className="text-xs text-muted-foreground">
+              Imported folders
+            </Label>
+            <Select
+              value={exportSettings.folderStructure}
+              onValueChange={(value: FolderStructure) => updateExportSettings({ folderStructure: value })}
+            >
+              <SelectTrigger id="folder-structure" className="h-9 mt-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="mirror">Keep subfolders</SelectItem>
+                <SelectItem value="flatten">Flatten into one folder</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="write-manifest" className="text-sm cursor-pointer">
+              Include manifest.json
+            </Label>
+            <Switch
+              id="write-manifest"
+              checked={exportSettings.writeManifest}
+              onCheckedChange={(checked) => updateExportSettings({ writeManifest: checked })}
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="write-html-snippets" className="text-sm cursor-pointer">
+              Include &lt;picture&gt; snippets
+            </Label>
+            <Switch
+              id="write-html-snippets"
+              checked={exportSettings.writeHtmlSnippets}
+              onCheckedChange={(checked) => updateExportSettings({ writeHtmlSnippets: checked })}
+            />
+          </div>
+          {(exportSettings.writeManifest || exportSettings.writeHtmlSnippets) && (
+            <p className="text-xs text-muted-foreground">
+              {toFolder
+                ? 'Written next to the images.'
+                : 'Added to the ZIP next to the images, so single images are zipped too.'}
+            </p>
+          )}
+          {!toFolder && !supportsZipStreaming() && (
+            <div>
+              <Label htmlFor="zip-part-size" className="text-xs text-muted-foreground">
+                ZIP part size (MB)
+              </Label>
+              <Input
+                id="zip-part-size"
+                type="number"
+                value={exportSettings.zipPartSizeMB}
+                onChange={(e) => {
+                  const value = parseInt(e.target.value, 10);
+                  if (!isNaN(value) && value > 0) {
+                    updateExportSettings({ zipPartSizeMB: value });
+                  }
+                }}
+                className="h-9 mt-1"
+                min={1}
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                This browser can't write the ZIP straight to disk, so large exports are split into
+                parts of this size. Each part is held in memory until it downloads, so keep it well
+                below the memory you can spare.
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <Separator className="bg-sidebar-border" />
+
       {/* Actions */}
       <div className="sidebar-section mt-auto">
         <div className="space-y-2">
@@ -362,6 +1029,18 @@ export function Sidebar() {
             <Trash2 className="w-4 h-4" />
             Clear Workspace
           </Button>
+
+          {exportProgress && (
+            <ExportProgressPanel progress={exportProgress} onCancel={handleCancelExport} />
+          )}
+
+          {exportReport && !isExporting && (
+            <ExportReport
+              results={exportReport.results}
+              maxFileSizeKB={exportReport.maxFileSizeKB}
+              onDismiss={() => setExportReport(null)}
+            />
+          )}
         </div>
       </div>
 
@@ -374,7 +1053,9 @@ export function Sidebar() {
               {state.images.length} images
             </span>
             <span>
-              {width} × {height}px
+              {exportSettings.profiles.length > 0
+                ? `${exportSettings.profiles.length} profiles`
+                : describeOutputSize(exportSettings)}
             </span>
           </div>
         </div>
@@ -0,0 +1,120 @@
+import { useState } from 'react';
+import { ChevronDown, RotateCcw } from 'lucide-react';
+import type { SmartCropOptions } from '@/types/image';
+import { DEFAULT_SMART_CROP_OPTIONS } from '@/types/image';
+import { useApp } from '@/context/AppContext';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+
+type WeightKey = 'skinWeight' | 'detailWeight' | 'saturationWeight';
+
+const WEIGHTS: Array<{ key: WeightKey; label: string; max: number; step: number }> = [
+  { key: 'skinWeight', label: 'Skin tones', max: 5, step: 0.1 },
+  { key: 'detailWeight', label: 'Detail (edges)', max: 2, step: 0.05 },
+  { key: 'saturationWeight', label: 'Saturated color', max: 2, step: 0.05 },
+];
+
+/**
+ * Advanced smartcrop tuning; changes apply to images analyzed from then on
+ */
+export function SmartCropOptionsPanel() {
+  const { state, updateSettings } = useApp();
+  const { smartCropOptions } = state.settings;
+  const [open, setOpen] = useState(false);
+
+  const update = (updates: Partial<SmartCropOptions>) => {
+    updateSettings({ smartCropOptions: { ...smartCropOptions, ...updates } });
+  };
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen}>
+      <CollapsibleTrigger asChild>
+        <Button variant="ghost" size="sm" className="w-full justify-between h-7 px-2 text-xs text-muted-foreground">
+          Advanced detection settings
+          <ChevronDown className={`w-3.5 h-3.5 transition-transform ${open ? 'rotate-180' : ''}`} />
+        </Button>
+      </CollapsibleTrigger>
+
+      <CollapsibleContent className="space-y-3 pt-2 pl-2 border-l border-border">
+        <div>
+          <div className="flex items-center justify-between mb-1">
+            <Label className="text-xs text-muted-foreground">Smallest crop</Label>
+            <span className="text-xs text-muted-foreground">
+              {Math.round(smartCropOptions.minScale * 100)}%
+            </span>
+          </div>
+          <Slider
+            value={[smartCropOptions.minScale]}
+            min={0.1}
+            max={1}
+            step={0.05}
+            onValueChange={(value) =>
+              update({ minScale: value[0], maxScale: Math.max(smartCropOptions.maxScale, value[0]) })
+            }
+          />
+        </div>
+
+        <div>
+          <div className="flex items-center justify-between mb-1">
+            <Label className="text-xs text-muted-foreground">Largest crop</Label>
+            <span className="text-xs text-muted-foreground">
+              {Math.round(smartCropOptions.maxScale * 100)}%
+            </span>
+          </div>
+          <Slider
+            value={[smartCropOptions.maxScale]}
+            min={0.1}
+            max={1}
+            step={0.05}
+            onValueChange={(value) =>
+              update({ maxScale: value[0], minScale: Math.min(smartCropOptions.minScale, value[0]) })
+            }
+          />
+        </div>
+
+        <div className="flex items-center justify-between">
+          <Label htmlFor="smart-crop-thirds" className="text-xs text-muted-foreground cursor-pointer">
+            Prefer rule of thirds
+          </Label>
+          <Switch
+            id="smart-crop-thirds"
+            checked={smartCropOptions.ruleOfThirds}
+            onCheckedChange={(checked) => update({ ruleOfThirds: checked })}
+          />
+        </div>
+
+        {WEIGHTS.map(({ key, label, max, step }) => (
+          <div key={key}>
+            <div className="flex items-center justify-between mb-1">
+              <Label className="text-xs text-muted-foreground">{label}</Label>
+              <span className="text-xs text-muted-foreground">{smartCropOptions[key].toFixed(2)}</span>
+            </div>
+            <Slider
+              value={[smartCropOptions[key]]}
+              min={0}
+              max={max}
+              step={step}
+              onValueChange={(value) => update({ [key]: value[0] })}
+            />
+          </div>
+        ))}
+
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-xs text-muted-foreground">Recompute to apply to loaded images.</p>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2 gap-1 text-xs"
+            onClick={() => updateSettings({ smartCropOptions: DEFAULT_SMART_CROP_OPTIONS })}
+          >
+            <RotateCcw className="w-3 h-3" />
+            Defaults
+          </Button>
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
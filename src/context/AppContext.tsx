@@ -1,26 +1,43 @@
 import { createContext, useContext, useReducer, useCallback, useEffect, useRef, type ReactNode } from 'react';
-import type { ImageFile, CropState, AppSettings, ExportSettings } from '@/types/image';
+import type { ImageFile, CropState, AppSettings, ExportSettings, FocalPoint } from '@/types/image';
 import { DEFAULT_APP_SETTINGS, DEFAULT_CROP_STATE } from '@/types/image';
-import { saveSettings, loadSettings, saveCropStates, loadCropStates, clearStorage } from '@/lib/storage';
+import {
+  saveSettings,
+  loadSettings,
+  saveCropStates,
+  loadCropStates,
+  saveFocalPoints,
+  loadFocalPoints,
+  clearStorage,
+} from '@/lib/storage';
 import { generateImageId, generateFileHash, loadImageWithOrientation, generateThumbnail, isValidImageFile } from '@/lib/imageUtils';
-import { analyzeImage, clearSmartCropCache } from '@/lib/smartCropWorker';
-import { smartCropToCropState } from '@/lib/cropMath';
+import { analyzeImage, batchAnalyze, cancelSmartCrop, clearSmartCropCache } from '@/lib/smartCropWorker';
+import { frameAroundFocalPoint, smartCropToCropState } from '@/lib/cropMath';
+import { getCropVariants, type CropVariant } from '@/lib/exportProfiles';
 
 // State types
+export interface SmartCropProgress {
+  completed: number;
+  total: number;
+}
+
 interface AppState {
   images: ImageFile[];
   settings: AppSettings;
   isProcessing: boolean;
   selectedImageId: string | null;
   editingImageId: string | null;
+  // Bulk analyses (import, recompute) in flight, or null when there are none
+  smartCropProgress: SmartCropProgress | null;
 }
 
 type AppAction =
   | { type: 'ADD_IMAGES'; payload: ImageFile[] }
   | { type: 'REMOVE_IMAGE'; payload: string }
   | { type: 'CLEAR_IMAGES' }
-  | { type: 'UPDATE_CROP_STATE'; payload: { id: string; cropState: CropState } }
+  | { type: 'UPDATE_CROP_STATE'; payload: { id: string; cropState: CropState; profileId?: string } }
   | { type: 'UPDATE_ALL_CROP_STATES'; payload: { aspect: number } }
+  | { type: 'SET_FOCAL_POINT'; payload: { id: string; focalPoint: FocalPoint | null } }
   | { type: 'APPLY_CROP_TO_ALL'; payload: CropState }
   | { type: 'UPDATE_SETTINGS'; payload: Partial<AppSettings> }
   | { type: 'UPDATE_EXPORT_SETTINGS'; payload: Partial<ExportSettings> }
@@ -30,6 +47,7 @@ type AppAction =
   | { type: 'SET_IMAGE_SMART_CROP'; payload: { id: string; result: ImageFile['smartCropResult'] } }
   | { type: 'SET_IMAGE_PROCESSING'; payload: { id: string; isProcessing: boolean } }
   | { type: 'SET_IMAGE_SMART_CROP_PENDING'; payload: { id: string; pending: boolean } }
+  | { type: 'SET_SMART_CROP_PROGRESS'; payload: SmartCropProgress | null }
   | { type: 'LOAD_STATE'; payload: Partial<AppState> };
 
 const initialState: AppState = {
@@ -38,6 +56,7 @@ const initialState: AppState = {
   isProcessing: false,
   selectedImageId: null,
   editingImageId: null,
+  smartCropProgress: null,
 };
 
 function appReducer(state: AppState, action: AppAction): AppState {
@@ -51,36 +70,72 @@ function appReducer(state: AppState, action: AppAction): AppState {
     case 'CLEAR_IMAGES':
       return { ...state, images: [], selectedImageId: null, editingImageId: null };
 
-    case 'UPDATE_CROP_STATE':
+    case 'UPDATE_CROP_STATE': {
+      const { id, cropState, profileId } = action.payload;
       return {
         ...state,
-        images: state.images.map(img =>
-          img.id === action.payload.id
-            ? { ...img, cropState: action.payload.cropState }
-            : img
-        ),
+        images: state.images.map(img => {
+          if (img.id !== id) return img;
+          return profileId
+            ? { ...img, profileCropStates: { ...img.profileCropStates, [profileId]: cropState } }
+            : { ...img, cropState };
+        }),
       };
+    }
 
     case 'UPDATE_ALL_CROP_STATES':
       return {
         ...state,
         images: state.images.map(img => ({
           ...img,
-          cropState: { ...img.cropState, aspect: action.payload.aspect },
+          // With a focal point the crop is framed around it again, not left at the old center
+          cropState: img.focalPoint
+            ? frameAroundFocalPoint(
+                img.cropState,
+                img.focalPoint,
+                img.originalWidth,
+                img.originalHeight,
+                action.payload.aspect
+              )
+            : { ...img.cropState, aspect: action.payload.aspect },
         })),
       };
 
-    case 'APPLY_CROP_TO_ALL':
+    case 'SET_FOCAL_POINT': {
+      const { id, focalPoint } = action.payload;
+      return {
+        ...state,
+        images: state.images.map(img => {
+          if (img.id !== id) return img;
+          if (!focalPoint) return { ...img, focalPoint: undefined };
+
+          // Every stored crop, profile ones included, is framed around the new point in its own aspect
+          const frame = (cropState: CropState) =>
+            frameAroundFocalPoint(cropState, focalPoint, img.originalWidth, img.originalHeight, cropState.aspect);
+          const profileCropStates = img.profileCropStates && Object.fromEntries(
+            Object.entries(img.profileCropStates).map(([profileId, cropState]) => [profileId, frame(cropState)])
+          );
+          return { ...img, focalPoint, cropState: frame(img.cropState), profileCropStates };
+        }),
+      };
+    }
+
+    case 'APPLY_CROP_TO_ALL': {
+      const { cropMode, targetWidth, targetHeight } = state.settings.exportSettings;
+      // Free crops carry their own aspect; locked ones always follow the target size
+      const aspect = cropMode === 'free' ? action.payload.aspect : targetWidth / targetHeight;
       return {
         ...state,
         images: state.images.map(img => ({
           ...img,
           cropState: {
             ...action.payload,
-            aspect: state.settings.exportSettings.targetWidth / state.settings.exportSettings.targetHeight,
+            aspect,
+            sourceHash: img.cropState.sourceHash,
           },
         })),
       };
+    }
 
     case 'UPDATE_SETTINGS':
       return { ...state, settings: { ...state.settings, ...action.payload } };
@@ -133,6 +188,9 @@ function appReducer(state: AppState, action: AppAction): AppState {
         ),
       };
 
+    case 'SET_SMART_CROP_PROGRESS':
+      return { ...state, smartCropProgress: action.payload };
+
     case 'LOAD_STATE':
       return { ...state, ...action.payload };
 
@@ -147,7 +205,8 @@ interface AppContextType {
   addImages: (files: File[]) => Promise<void>;
   removeImage: (id: string) => void;
   clearImages: () => void;
-  updateCropState: (id: string, cropState: CropState) => void;
+  updateCropState: (id: string, cropState: CropState, profileId?: string) => void;
+  setFocalPoint: (id: string, focalPoint: FocalPoint | null) => void;
   updateSettings: (settings: Partial<AppSettings>) => void;
   updateExportSettings: (settings: Partial<ExportSettings>) => void;
   setSelectedImage: (id: string | null) => void;
@@ -188,39 +247,164 @@ export function AppProvider({ children }: { children: ReactNode }) {
     }
   }, [state.images]);
 
+  // Save focal points when they change, merged into the stored ones so files
+  // that aren't loaded keep theirs; a point that was removed is dropped
+  useEffect(() => {
+    if (state.images.length === 0) return;
+    const focalPoints: Record<string, FocalPoint> = loadFocalPoints() || {};
+    state.images.forEach(img => {
+      const hash = img.cropState.sourceHash;
+      if (!hash) return;
+      if (img.focalPoint) {
+        focalPoints[hash] = img.focalPoint;
+      } else {
+        delete focalPoints[hash];
+      }
+    });
+    saveFocalPoints(focalPoints);
+  }, [state.images]);
+
   // Use a ref to always access the latest images without stale closures
   const imagesRef = useRef(state.images);
   imagesRef.current = state.images;
 
+  // Smart crop each profile that has its own aspect, separately from the main crop
+  const runProfileSmartCrops = useCallback(async (image: ImageFile, variants: CropVariant[]) => {
+    await Promise.all(variants.map(async ({ profile }) => {
+      if (!profile || !image.bitmap) return;
+
+      const result = await analyzeImage(
+        image.bitmap,
+        profile.targetWidth,
+        profile.targetHeight,
+        image.id,
+        image.cropState.sourceHash,
+        state.settings.smartCropOptions
+      );
+      if (!result) return;
+
+      const base = image.profileCropStates?.[profile.id] ?? image.cropState;
+      const cropState = smartCropToCropState(
+        result,
+        image.originalWidth,
+        image.originalHeight,
+        profile.targetWidth / profile.targetHeight,
+        base.rotation ?? 0
+      );
+      cropState.sourceHash = image.cropState.sourceHash;
+      cropState.flipX = base.flipX;
+      cropState.flipY = base.flipY;
+
+      dispatch({ type: 'UPDATE_CROP_STATE', payload: { id: image.id, cropState, profileId: profile.id } });
+    }));
+  }, [state.settings.smartCropOptions]);
+
+  // Turn an analysis into the image's crop, then smart crop its profiles too
+  const applySmartCropResult = useCallback(async (image: ImageFile, result: ImageFile['smartCropResult']) => {
+    const { id } = image;
+    try {
+      // Failed, or cancelled because the image was removed
+      if (!result) {
+        dispatch({ type: 'SET_IMAGE_SMART_CROP_PENDING', payload: { id, pending: false } });
+        return;
+      }
+
+      dispatch({ type: 'SET_IMAGE_SMART_CROP', payload: { id, result } });
+
+      // Convert to crop state
+      const { targetWidth, targetHeight } = state.settings.exportSettings;
+      const newCropState = smartCropToCropState(
+        result,
+        image.originalWidth,
+        image.originalHeight,
+        targetWidth / targetHeight,
+        image.cropState.rotation ?? 0
+      );
+      newCropState.sourceHash = image.cropState.sourceHash;
+      newCropState.flipX = image.cropState.flipX;
+      newCropState.flipY = image.cropState.flipY;
+
+      dispatch({ type: 'UPDATE_CROP_STATE', payload: { id, cropState: newCropState } });
+
+      await runProfileSmartCrops(image, getCropVariants(state.settings.exportSettings));
+    } catch (error) {
+      console.error('Smart crop failed for image:', id, error);
+      dispatch({ type: 'SET_IMAGE_SMART_CROP_PENDING', payload: { id, pending: false } });
+    }
+  }, [state.settings.exportSettings, runProfileSmartCrops]);
+
   const runSmartCropForImage = useCallback(async (id: string, imageOverride?: ImageFile) => {
     const image = imageOverride ?? imagesRef.current.find(img => img.id === id);
-    if (!image || !image.bitmap || !state.settings.enableSmartCrop) return;
+    // A focal point set by hand takes the place of smart crop
+    if (!image || !image.bitmap || image.focalPoint || !state.settings.enableSmartCrop) return;
 
     dispatch({ type: 'SET_IMAGE_SMART_CROP_PENDING', payload: { id, pending: true } });
 
-    try {
-      const { targetWidth, targetHeight } = state.settings.exportSettings;
-      const result = await analyzeImage(image.bitmap, targetWidth, targetHeight, id);
-
-      if (result) {
-        dispatch({ type: 'SET_IMAGE_SMART_CROP', payload: { id, result } });
+    const { targetWidth, targetHeight } = state.settings.exportSettings;
+    const result = await analyzeImage(
+      image.bitmap,
+      targetWidth,
+      targetHeight,
+      id,
+      image.cropState.sourceHash,
+      state.settings.smartCropOptions
+    );
+    await applySmartCropResult(image, result);
+  }, [state.settings.enableSmartCrop, state.settings.exportSettings, state.settings.smartCropOptions, applySmartCropResult]);
+
+  // Overall progress across bulk runs, which may overlap (an import during a recompute)
+  const batchProgressRef = useRef<SmartCropProgress>({ completed: 0, total: 0 });
+
+  // Smart crop many images through the worker pool, reporting progress as they finish
+  const runSmartCropBatch = useCallback(async (images: ImageFile[]) => {
+    const eligible = images.filter(
+      (img): img is ImageFile & { bitmap: ImageBitmap } => !!img.bitmap && !img.focalPoint
+    );
+    if (!state.settings.enableSmartCrop || eligible.length === 0) return;
+
+    const progress = batchProgressRef.current;
+    progress.total += eligible.length;
+    dispatch({ type: 'SET_SMART_CROP_PROGRESS', payload: { ...progress } });
+    eligible.forEach(img => {
+      dispatch({ type: 'SET_IMAGE_SMART_CROP_PENDING', payload: { id: img.id, pending: true } });
+    });
 
-        // Convert to crop state
-        const newCropState = smartCropToCropState(
-          result,
-          image.originalWidth,
-          image.originalHeight,
-          targetWidth / targetHeight
-        );
-        newCropState.sourceHash = image.cropState.sourceHash;
+    const { targetWidth, targetHeight } = state.settings.exportSettings;
+    const byId = new Map(eligible.map(img => [img.id, img]));
+    const applied: Promise<void>[] = [];
+    let counted = 0;
 
-        dispatch({ type: 'UPDATE_CROP_STATE', payload: { id, cropState: newCropState } });
+    try {
+      await batchAnalyze(
+        eligible.map(img => ({
+          imageId: img.id,
+          sourceHash: img.cropState.sourceHash,
+          bitmap: img.bitmap,
+          targetWidth,
+          targetHeight,
+          options: state.settings.smartCropOptions,
+        })),
+        undefined,
+        (_completed, _total, { imageId, result }) => {
+          counted++;
+          progress.completed++;
+          dispatch({ type: 'SET_SMART_CROP_PROGRESS', payload: { ...progress } });
+          const image = byId.get(imageId);
+          if (image) applied.push(applySmartCropResult(image, result));
+        }
+      );
+      await Promise.all(applied);
+    } finally {
+      // Count whatever didn't finish so the progress can't get stuck
+      progress.completed += eligible.length - counted;
+      if (progress.completed >= progress.total) {
+        batchProgressRef.current = { completed: 0, total: 0 };
+        dispatch({ type: 'SET_SMART_CROP_PROGRESS', payload: null });
+      } else {
+        dispatch({ type: 'SET_SMART_CROP_PROGRESS', payload: { ...progress } });
       }
-    } catch (error) {
-      console.error('Smart crop failed for image:', id, error);
-      dispatch({ type: 'SET_IMAGE_SMART_CROP_PENDING', payload: { id, pending: false } });
     }
-  }, [state.settings.enableSmartCrop, state.settings.exportSettings]);
+  }, [state.settings.enableSmartCrop, state.settings.exportSettings, state.settings.smartCropOptions, applySmartCropResult]);
 
   const addImages = useCallback(async (files: File[]) => {
     dispatch({ type: 'SET_PROCESSING', payload: true });
@@ -228,6 +412,7 @@ export function AppProvider({ children }: { children: ReactNode }) {
     const validFiles = files.filter(isValidImageFile);
     const newImages: ImageFile[] = [];
     const savedCrops = loadCropStates() || {};
+    const savedFocalPoints = loadFocalPoints() || {};
     const { targetWidth, targetHeight } = state.settings.exportSettings;
     const aspect = targetWidth / targetHeight;
 
@@ -240,24 +425,25 @@ export function AppProvider({ children }: { children: ReactNode }) {
 
         // Check for saved crop state
         const savedCrop = savedCrops[hash];
-        const cropState: CropState = savedCrop || {
-          ...DEFAULT_CROP_STATE,
-          aspect,
-          sourceHash: hash,
-        };
+        const focalPoint = savedFocalPoints[hash];
+        const defaultCrop = { ...DEFAULT_CROP_STATE, aspect, sourceHash: hash };
+        const cropState: CropState = savedCrop ||
+          (focalPoint ? frameAroundFocalPoint(defaultCrop, focalPoint, width, height, aspect) : defaultCrop);
         cropState.sourceHash = hash;
 
         newImages.push({
           id,
           file,
           name: file.name,
+          relativePath: file.webkitRelativePath || '',
           originalWidth: width,
           originalHeight: height,
           bitmap,
           thumbnail,
           cropState,
+          focalPoint,
           isProcessing: false,
-          isSmartCropPending: state.settings.enableSmartCrop && !savedCrop,
+          isSmartCropPending: state.settings.enableSmartCrop && !savedCrop && !focalPoint,
         });
       } catch (error) {
         console.error('Failed to load image:', file.name, error);
@@ -267,30 +453,30 @@ export function AppProvider({ children }: { children: ReactNode }) {
     dispatch({ type: 'ADD_IMAGES', payload: newImages });
     dispatch({ type: 'SET_PROCESSING', payload: false });
 
-    // Run smart crop for new images if enabled and no saved state
-    if (state.settings.enableSmartCrop) {
-      for (const img of newImages) {
-        if (img.isSmartCropPending && img.bitmap) {
-          // Pass the image object directly to avoid stale closure issues
-          setTimeout(() => runSmartCropForImage(img.id, img), 100);
-        }
-      }
-    }
-  }, [state.settings.exportSettings, state.settings.enableSmartCrop, runSmartCropForImage]);
+    // Run smart crop for new images without saved state; the image objects are
+    // passed directly to avoid stale closure issues
+    runSmartCropBatch(newImages.filter(img => img.isSmartCropPending)).catch(error => {
+      console.error('Smart crop failed for imported images:', error);
+    });
+  }, [state.settings.exportSettings, state.settings.enableSmartCrop, runSmartCropBatch]);
 
   const removeImage = useCallback((id: string) => {
     dispatch({ type: 'REMOVE_IMAGE', payload: id });
-    clearSmartCropCache(id);
+    cancelSmartCrop(id);
   }, []);
 
   const clearImages = useCallback(() => {
     dispatch({ type: 'CLEAR_IMAGES' });
-    clearSmartCropCache();
+    cancelSmartCrop();
     clearStorage();
   }, []);
 
-  const updateCropState = useCallback((id: string, cropState: CropState) => {
-    dispatch({ type: 'UPDATE_CROP_STATE', payload: { id, cropState } });
+  const updateCropState = useCallback((id: string, cropState: CropState, profileId?: string) => {
+    dispatch({ type: 'UPDATE_CROP_STATE', payload: { id, cropState, profileId } });
+  }, []);
+
+  const setFocalPoint = useCallback((id: string, focalPoint: FocalPoint | null) => {
+    dispatch({ type: 'SET_FOCAL_POINT', payload: { id, focalPoint } });
   }, []);
 
   const updateSettings = useCallback((settings: Partial<AppSettings>) => {
@@ -300,20 +486,34 @@ export function AppProvider({ children }: { children: ReactNode }) {
   const updateExportSettings = useCallback((settings: Partial<ExportSettings>) => {
     dispatch({ type: 'UPDATE_EXPORT_SETTINGS', payload: settings });
 
-    // If aspect ratio changed, update all crop states
-    if (settings.targetWidth !== undefined || settings.targetHeight !== undefined) {
+    // If aspect ratio changed (or crops get locked again), update all crop states.
+    // Free crops keep their own aspect.
+    const cropMode = settings.cropMode ?? state.settings.exportSettings.cropMode;
+    const sizeChanged = settings.targetWidth !== undefined || settings.targetHeight !== undefined;
+    const lockedAgain = settings.cropMode === 'locked' && state.settings.exportSettings.cropMode === 'free';
+    if (cropMode !== 'free' && (sizeChanged || lockedAgain)) {
       const newWidth = settings.targetWidth ?? state.settings.exportSettings.targetWidth;
       const newHeight = settings.targetHeight ?? state.settings.exportSettings.targetHeight;
       const newAspect = newWidth / newHeight;
 
       dispatch({ type: 'UPDATE_ALL_CROP_STATES', payload: { aspect: newAspect } });
+    }
 
-      // Clear smart crop cache and recompute if enabled
-      if (state.settings.enableSmartCrop) {
-        clearSmartCropCache();
+    // Profiles that just got their own aspect start from a smart crop
+    if (settings.profiles && state.settings.enableSmartCrop) {
+      const previous = new Set(getCropVariants(state.settings.exportSettings).map(variant => variant.id));
+      const added = getCropVariants({ ...state.settings.exportSettings, ...settings })
+        .filter(variant => !previous.has(variant.id));
+      if (added.length > 0) {
+        // Images with a focal point are framed around it instead
+        for (const img of imagesRef.current.filter(image => !image.focalPoint)) {
+          runProfileSmartCrops(img, added).catch(error => {
+            console.error('Smart crop failed for image:', img.id, error);
+          });
+        }
       }
     }
-  }, [state.settings.exportSettings, state.settings.enableSmartCrop]);
+  }, [state.settings.exportSettings, state.settings.enableSmartCrop, runProfileSmartCrops]);
 
   const setSelectedImage = useCallback((id: string | null) => {
     dispatch({ type: 'SET_SELECTED_IMAGE', payload: id });
@@ -330,14 +530,13 @@ export function AppProvider({ children }: { children: ReactNode }) {
   const recomputeSmartCrop = useCallback(async () => {
     if (!state.settings.enableSmartCrop) return;
 
-    clearSmartCropCache();
+    // Analyze again rather than reusing cached results
+    await clearSmartCropCache(
+      state.images.map(img => img.cropState.sourceHash).filter((hash): hash is string => !!hash)
+    );
 
-    for (const img of state.images) {
-      if (img.bitmap) {
-        await runSmartCropForImage(img.id);
-      }
-    }
-  }, [state.settings.enableSmartCrop, state.images, runSmartCropForImage]);
+    await runSmartCropBatch(state.images);
+  }, [state.settings.enableSmartCrop, state.images, runSmartCropBatch]);
 
   return (
     <AppContext.Provider
@@ -347,6 +546,7 @@ export function AppProvider({ children }: { children: ReactNode }) {
         removeImage,
         clearImages,
         updateCropState,
+        setFocalPoint,
         updateSettings,
         updateExportSettings,
         setSelectedImage,
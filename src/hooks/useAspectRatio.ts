@@ -1,14 +1,20 @@
 import { useMemo } from 'react';
 import { useApp } from '@/context/AppContext';
+import type { SizeMode } from '@/types/image';
 
 export function useAspectRatio() {
   const { state, updateExportSettings } = useApp();
-  const { targetWidth, targetHeight, aspectLocked } = state.settings.exportSettings;
+  const { targetWidth, targetHeight, aspectLocked, sizeMode, edgeSize, scalePercent } =
+    state.settings.exportSettings;
 
-  const aspect = useMemo(() => targetWidth / targetHeight, [targetWidth, targetHeight]);
+  // Only exact sizes have a fixed output aspect; the other modes keep each image's own
+  const aspect = useMemo(
+    () => (sizeMode === 'exact' ? targetWidth / targetHeight : null),
+    [sizeMode, targetWidth, targetHeight]
+  );
 
   const setWidth = (width: number) => {
-    if (aspectLocked) {
+    if (aspect !== null && aspectLocked) {
       const newHeight = Math.round(width / aspect);
       updateExportSettings({ targetWidth: width, targetHeight: newHeight });
     } else {
@@ -17,7 +23,7 @@ export function useAspectRatio() {
   };
 
   const setHeight = (height: number) => {
-    if (aspectLocked) {
+    if (aspect !== null && aspectLocked) {
       const newWidth = Math.round(height * aspect);
       updateExportSettings({ targetWidth: newWidth, targetHeight: height });
     } else {
@@ -34,14 +40,32 @@ export function useAspectRatio() {
     updateExportSettings({ aspectLocked: !aspectLocked });
   };
 
+  const setSizeMode = (mode: SizeMode) => {
+    updateExportSettings({ sizeMode: mode });
+  };
+
+  const setEdgeSize = (size: number) => {
+    updateExportSettings({ edgeSize: size });
+  };
+
+  const setScalePercent = (percent: number) => {
+    updateExportSettings({ scalePercent: percent });
+  };
+
   return {
     width: targetWidth,
     height: targetHeight,
     aspect,
     aspectLocked,
+    sizeMode,
+    edgeSize,
+    scalePercent,
     setWidth,
     setHeight,
     setAspect,
     toggleAspectLock,
+    setSizeMode,
+    setEdgeSize,
+    setScalePercent,
   };
 }
@@ -1,6 +1,13 @@
 import { useMemo } from 'react';
-import type { CropState, CropRect } from '@/types/image';
-import { calculateCrop, getCropRect, getMaxScale, clampCropCenter } from '@/lib/cropMath';
+import type { CropState, CropRect, CropHandle } from '@/types/image';
+import {
+  calculateCrop,
+  getCropRect,
+  getMaxScale,
+  clampCropCenter,
+  normalizeRotation,
+  resizeCropFromHandle,
+} from '@/lib/cropMath';
 
 interface UseCropStateResult {
   cropRect: CropRect;
@@ -13,6 +20,11 @@ interface UseCropStateResult {
   maxScale: number;
   updateCenter: (centerX: number, centerY: number) => CropState;
   updateScale: (scale: number) => CropState;
+  resizeFromHandle: (handle: CropHandle, pointerX: number, pointerY: number, lockAspect?: boolean) => CropState;
+  updateRotation: (rotation: number) => CropState;
+  rotateBy: (degrees: number) => CropState;
+  toggleFlipX: () => CropState;
+  toggleFlipY: () => CropState;
   reset: () => CropState;
   center: () => CropState;
   fit: () => CropState;
@@ -34,8 +46,8 @@ export function useCropState(
   );
 
   const maxScale = useMemo(
-    () => getMaxScale(imageWidth, imageHeight, cropState.aspect),
-    [imageWidth, imageHeight, cropState.aspect]
+    () => getMaxScale(imageWidth, imageHeight, cropState.aspect, cropState.rotation ?? 0),
+    [imageWidth, imageHeight, cropState.aspect, cropState.rotation]
   );
 
   const displayCrop = useMemo(() => ({
@@ -52,7 +64,8 @@ export function useCropState(
       calculation.cropWidth,
       calculation.cropHeight,
       imageWidth,
-      imageHeight
+      imageHeight,
+      calculation.rotation
     );
     return { ...cropState, centerX: clamped.centerX, centerY: clamped.centerY };
   };
@@ -62,11 +75,47 @@ export function useCropState(
     return { ...cropState, scale: clampedScale };
   };
 
+  const resizeFromHandle = (
+    handle: CropHandle,
+    pointerX: number,
+    pointerY: number,
+    lockAspect: boolean = true
+  ): CropState =>
+    resizeCropFromHandle(imageWidth, imageHeight, cropState, handle, pointerX, pointerY, lockAspect);
+
+  const updateRotation = (rotation: number): CropState => {
+    const normalized = normalizeRotation(rotation);
+    const rotatedMaxScale = getMaxScale(imageWidth, imageHeight, cropState.aspect, normalized);
+    const rotated: CropState = {
+      ...cropState,
+      rotation: normalized,
+      scale: Math.max(1, Math.min(rotatedMaxScale, cropState.scale)),
+    };
+
+    // Store the clamped center so later drags start from where the crop is drawn
+    const calc = calculateCrop(imageWidth, imageHeight, rotated);
+    return {
+      ...rotated,
+      centerX: (calc.cropX + calc.cropWidth / 2) / imageWidth,
+      centerY: (calc.cropY + calc.cropHeight / 2) / imageHeight,
+    };
+  };
+
+  const rotateBy = (degrees: number): CropState =>
+    updateRotation((cropState.rotation ?? 0) + degrees);
+
+  const toggleFlipX = (): CropState => ({ ...cropState, flipX: !cropState.flipX });
+
+  const toggleFlipY = (): CropState => ({ ...cropState, flipY: !cropState.flipY });
+
   const reset = (): CropState => ({
     ...cropState,
     centerX: 0.5,
     centerY: 0.5,
     scale: 1,
+    rotation: 0,
+    flipX: false,
+    flipY: false,
   });
 
   const center = (): CropState => ({
@@ -88,6 +137,11 @@ export function useCropState(
     maxScale,
     updateCenter,
     updateScale,
+    resizeFromHandle,
+    updateRotation,
+    rotateBy,
+    toggleFlipX,
+    toggleFlipY,
     reset,
     center,
     fit,
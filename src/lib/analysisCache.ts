@@ -0,0 +1,127 @@
+import type { SmartCropResult } from '@/types/image';
+
+const DB_NAME = 'mybirme_analysis';
+const DB_VERSION = 2;
+const STORE_NAME = 'smartcrop';
+const LAST_USED_INDEX = 'lastUsed';
+
+// Least recently used results are dropped beyond this many entries
+export const MAX_ANALYSIS_CACHE_ENTRIES = 5000;
+
+interface AnalysisRecord {
+  sourceHash: string;
+  params: string; // target size and smartcrop options the result was found with
+  result: SmartCropResult;
+  lastUsed: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        // Results from older versions lack candidates; analyze again rather than migrate
+        if (request.result.objectStoreNames.contains(STORE_NAME)) {
+          request.result.deleteObjectStore(STORE_NAME);
+        }
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: ['sourceHash', 'params'] });
+        store.createIndex(LAST_USED_INDEX, 'lastUsed');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((error) => {
+      // Let the next call try again
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function isAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+/**
+ * Look up a stored analysis result and mark it as recently used
+ */
+export async function getCachedAnalysis(sourceHash: string, params: string): Promise<SmartCropResult | null> {
+  if (!isAvailable()) return null;
+  try {
+    const db = await openDatabase();
+    const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+    const record = await promisify<AnalysisRecord | undefined>(store.get([sourceHash, params]));
+    if (!record) return null;
+
+    store.put({ ...record, lastUsed: Date.now() });
+    return record.result;
+  } catch (error) {
+    console.error('Failed to read analysis cache:', error);
+    return null;
+  }
+}
+
+/**
+ * Store an analysis result, evicting the least recently used ones over the limit
+ */
+export async function putCachedAnalysis(
+  sourceHash: string,
+  params: string,
+  result: SmartCropResult
+): Promise<void> {
+  if (!isAvailable()) return;
+  try {
+    const db = await openDatabase();
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    const record: AnalysisRecord = { sourceHash, params, result, lastUsed: Date.now() };
+    store.put(record);
+
+    let excess = (await promisify(store.count())) - MAX_ANALYSIS_CACHE_ENTRIES;
+    if (excess > 0) {
+      const cursorRequest = store.index(LAST_USED_INDEX).openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor || excess <= 0) return;
+        cursor.delete();
+        excess--;
+        cursor.continue();
+      };
+    }
+  } catch (error) {
+    console.error('Failed to write analysis cache:', error);
+  }
+}
+
+/**
+ * Remove stored results, either those of the given images or all of them
+ */
+export async function clearCachedAnalyses(sourceHashes?: string[]): Promise<void> {
+  if (!isAvailable()) return;
+  try {
+    const db = await openDatabase();
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    if (sourceHashes) {
+      // Every result for an image: [hash] sorts before [hash, params] and [hash, []] after it
+      sourceHashes.forEach((hash) => store.delete(IDBKeyRange.bound([hash], [hash, []])));
+    } else {
+      store.clear();
+    }
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } catch (error) {
+    console.error('Failed to clear analysis cache:', error);
+  }
+}
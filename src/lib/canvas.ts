@@ -0,0 +1,26 @@
+/**
+ * Canvases for the export pipeline, which runs both on the main thread and
+ * in export workers where only OffscreenCanvas exists
+ */
+export type RenderCanvas = HTMLCanvasElement | OffscreenCanvas;
+export type RenderContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+export function createCanvas(width: number, height: number): RenderCanvas {
+  if (typeof document === 'undefined') {
+    return new OffscreenCanvas(width, height);
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+export function getContext2d(canvas: RenderCanvas): RenderContext {
+  const ctx = (canvas as HTMLCanvasElement).getContext('2d') as RenderContext | null;
+  if (!ctx) throw new Error('Failed to get canvas context');
+  return ctx;
+}
+
+export function isOffscreenCanvas(canvas: RenderCanvas): canvas is OffscreenCanvas {
+  return typeof OffscreenCanvas !== 'undefined' && canvas instanceof OffscreenCanvas;
+}
@@ -1,4 +1,119 @@
-import type { CropState, CropRect, CropCalculation } from '@/types/image';
+import type { CropState, FocalPoint, CropRect, CropCalculation, CropHandle } from '@/types/image';
+
+// Smallest crop edge in source pixels
+const MIN_CROP_SIZE = 50;
+
+/**
+ * Normalize an angle in degrees to the (-180, 180] range
+ */
+export function normalizeRotation(rotation: number): number {
+  const normalized = ((rotation % 360) + 360) % 360;
+  return normalized > 180 ? normalized - 360 : normalized;
+}
+
+/**
+ * Rotate a vector clockwise by the given angle in degrees
+ */
+export function rotateVector(
+  x: number,
+  y: number,
+  rotation: number
+): { x: number; y: number } {
+  const rad = (rotation * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  return {
+    x: x * cos - y * sin,
+    y: x * sin + y * cos,
+  };
+}
+
+/**
+ * Map a vector from source image space into the output (view) frame:
+ * rotate by the crop rotation, then mirror
+ */
+export function sourceToViewVector(
+  x: number,
+  y: number,
+  cropState: Pick<CropState, 'rotation' | 'flipX' | 'flipY'>
+): { x: number; y: number } {
+  const rotated = rotateVector(x, y, cropState.rotation ?? 0);
+  return {
+    x: cropState.flipX ? -rotated.x : rotated.x,
+    y: cropState.flipY ? -rotated.y : rotated.y,
+  };
+}
+
+/**
+ * Map a vector from the output (view) frame back into source image space
+ */
+export function viewToSourceVector(
+  x: number,
+  y: number,
+  cropState: Pick<CropState, 'rotation' | 'flipX' | 'flipY'>
+): { x: number; y: number } {
+  return rotateVector(
+    cropState.flipX ? -x : x,
+    cropState.flipY ? -y : y,
+    -(cropState.rotation ?? 0)
+  );
+}
+
+/**
+ * CSS transform that mirrors an unrotated view of the source to match the crop flips
+ */
+export function getFlipTransform(
+  cropState: Pick<CropState, 'flipX' | 'flipY'>
+): string | undefined {
+  if (!cropState.flipX && !cropState.flipY) return undefined;
+  return `scale(${cropState.flipX ? -1 : 1}, ${cropState.flipY ? -1 : 1})`;
+}
+
+/**
+ * Get the axis-aligned bounding box of a width x height rectangle rotated by `rotation` degrees
+ */
+export function getRotatedBounds(
+  width: number,
+  height: number,
+  rotation: number
+): { width: number; height: number } {
+  const rad = (rotation * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(rad));
+  const sin = Math.abs(Math.sin(rad));
+  return {
+    width: width * cos + height * sin,
+    height: width * sin + height * cos,
+  };
+}
+
+/**
+ * Calculate the largest crop of the given aspect that fits inside the
+ * rotated image when centered (the crop size at scale = 1)
+ *
+ * The crop is axis-aligned in the rotated frame, so in source pixels its
+ * bounding box is w|cos| + h|sin| by w|sin| + h|cos|, which must fit the image.
+ * With no rotation this reduces to the plain fit-to-width / fit-to-height rule.
+ */
+export function getBaseCropSize(
+  imageWidth: number,
+  imageHeight: number,
+  aspect: number,
+  rotation: number = 0
+): { baseWidth: number; baseHeight: number } {
+  const rad = (rotation * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(rad));
+  const sin = Math.abs(Math.sin(rad));
+
+  const baseWidth = Math.min(
+    imageWidth / (cos + sin / aspect),
+    imageHeight / (sin + cos / aspect)
+  );
+
+  return {
+    baseWidth,
+    baseHeight: baseWidth / aspect,
+  };
+}
 
 /**
  * Calculate the crop dimensions and position based on CropState
@@ -8,6 +123,9 @@ import type { CropState, CropRect, CropCalculation } from '@/types/image';
  * - Else: baseH = imageHeight, baseW = imageHeight * targetAspect
  * 
  * With zoom: cropW = baseW / scale, cropH = baseH / scale
+ *
+ * With rotation the base size shrinks so the rotated crop stays inside the
+ * image, and cropX/cropY describe the unrotated rect around the crop center.
  */
 export function calculateCrop(
   imageWidth: number,
@@ -15,32 +133,28 @@ export function calculateCrop(
   cropState: CropState
 ): CropCalculation {
   const { centerX, centerY, scale, aspect } = cropState;
-  const imageAspect = imageWidth / imageHeight;
+  const rotation = cropState.rotation ?? 0;
 
-  let baseWidth: number;
-  let baseHeight: number;
-
-  if (aspect >= imageAspect) {
-    // Target is wider than image - fit to width
-    baseWidth = imageWidth;
-    baseHeight = imageWidth / aspect;
-  } else {
-    // Target is taller than image - fit to height
-    baseHeight = imageHeight;
-    baseWidth = imageHeight * aspect;
-  }
+  const { baseWidth, baseHeight } = getBaseCropSize(imageWidth, imageHeight, aspect, rotation);
 
   // Apply zoom
   const cropWidth = baseWidth / scale;
   const cropHeight = baseHeight / scale;
 
-  // Calculate top-left position from center
-  let cropX = centerX * imageWidth - cropWidth / 2;
-  let cropY = centerY * imageHeight - cropHeight / 2;
+  // Clamp center so the (rotated) crop stays within image bounds
+  const clamped = clampCropCenter(
+    centerX,
+    centerY,
+    cropWidth,
+    cropHeight,
+    imageWidth,
+    imageHeight,
+    rotation
+  );
 
-  // Clamp to image bounds
-  cropX = Math.max(0, Math.min(imageWidth - cropWidth, cropX));
-  cropY = Math.max(0, Math.min(imageHeight - cropHeight, cropY));
+  // Calculate top-left position from center
+  const cropX = clamped.centerX * imageWidth - cropWidth / 2;
+  const cropY = clamped.centerY * imageHeight - cropHeight / 2;
 
   return {
     baseWidth,
@@ -49,6 +163,7 @@ export function calculateCrop(
     cropHeight,
     cropX,
     cropY,
+    rotation,
   };
 }
 
@@ -66,6 +181,9 @@ export function getCropRect(
     y: Math.round(calc.cropY),
     width: Math.round(calc.cropWidth),
     height: Math.round(calc.cropHeight),
+    rotation: calc.rotation,
+    flipX: cropState.flipX,
+    flipY: cropState.flipY,
   };
 }
 
@@ -76,24 +194,15 @@ export function smartCropToCropState(
   smartCrop: { x: number; y: number; width: number; height: number },
   imageWidth: number,
   imageHeight: number,
-  targetAspect: number
+  targetAspect: number,
+  rotation: number = 0
 ): CropState {
   // Center of the smartcrop region (normalized)
   const centerX = (smartCrop.x + smartCrop.width / 2) / imageWidth;
   const centerY = (smartCrop.y + smartCrop.height / 2) / imageHeight;
 
   // Calculate scale based on how much we need to zoom to fit the smartcrop
-  const imageAspect = imageWidth / imageHeight;
-  let baseWidth: number;
-  let baseHeight: number;
-
-  if (targetAspect >= imageAspect) {
-    baseWidth = imageWidth;
-    baseHeight = imageWidth / targetAspect;
-  } else {
-    baseHeight = imageHeight;
-    baseWidth = imageHeight * targetAspect;
-  }
+  const { baseWidth, baseHeight } = getBaseCropSize(imageWidth, imageHeight, targetAspect, rotation);
 
   // Scale is how much the base is divided to get the smartcrop size
   // We want to fit the smartcrop region, so scale = base / smartcropSize
@@ -111,11 +220,13 @@ export function smartCropToCropState(
     centerY,
     scale,
     aspect: targetAspect,
+    rotation,
   };
 }
 
 /**
  * Clamp center position to keep crop within image bounds
+ * A rotated crop is kept inside by clamping its bounding box
  */
 export function clampCropCenter(
   centerX: number,
@@ -123,16 +234,18 @@ export function clampCropCenter(
   cropWidth: number,
   cropHeight: number,
   imageWidth: number,
-  imageHeight: number
+  imageHeight: number,
+  rotation: number = 0
 ): { centerX: number; centerY: number } {
-  const minCenterX = (cropWidth / 2) / imageWidth;
+  const bounds = getRotatedBounds(cropWidth, cropHeight, rotation);
+  const minCenterX = (bounds.width / 2) / imageWidth;
   const maxCenterX = 1 - minCenterX;
-  const minCenterY = (cropHeight / 2) / imageHeight;
+  const minCenterY = (bounds.height / 2) / imageHeight;
   const maxCenterY = 1 - minCenterY;
 
   return {
-    centerX: Math.max(minCenterX, Math.min(maxCenterX, centerX)),
-    centerY: Math.max(minCenterY, Math.min(maxCenterY, centerY)),
+    centerX: minCenterX >= maxCenterX ? 0.5 : Math.max(minCenterX, Math.min(maxCenterX, centerX)),
+    centerY: minCenterY >= maxCenterY ? 0.5 : Math.max(minCenterY, Math.min(maxCenterY, centerY)),
   };
 }
 
@@ -142,26 +255,128 @@ export function clampCropCenter(
 export function getMaxScale(
   imageWidth: number,
   imageHeight: number,
-  aspect: number
+  aspect: number,
+  rotation: number = 0
 ): number {
-  const imageAspect = imageWidth / imageHeight;
-  
-  let baseWidth: number;
-  let baseHeight: number;
+  const { baseWidth, baseHeight } = getBaseCropSize(imageWidth, imageHeight, aspect, rotation);
+
+  // Max scale is when crop equals the smaller dimension
+  const maxScaleX = baseWidth / MIN_CROP_SIZE;
+  const maxScaleY = baseHeight / MIN_CROP_SIZE;
+
+  return Math.min(maxScaleX, maxScaleY, 10); // Cap at 10x
+}
+
+/**
+ * Resize the crop by dragging one of its handles
+ *
+ * The pointer is given relative to the current crop center, in source pixels
+ * along the crop's own (view) axes. The opposite corner or edge stays anchored.
+ * With a locked aspect the size is limited by getMaxScale; otherwise width and
+ * height follow the pointer independently and the crop takes their aspect.
+ * Either way the crop stops growing where it would leave the image.
+ */
+export function resizeCropFromHandle(
+  imageWidth: number,
+  imageHeight: number,
+  cropState: CropState,
+  handle: CropHandle,
+  pointerX: number,
+  pointerY: number,
+  lockAspect: boolean = true
+): CropState {
+  const rotation = cropState.rotation ?? 0;
+  const calc = calculateCrop(imageWidth, imageHeight, cropState);
+
+  // Direction from the anchored side towards the dragged one (0 = axis not dragged)
+  const dirX = handle.includes('e') ? 1 : handle.includes('w') ? -1 : 0;
+  const dirY = handle.includes('s') ? 1 : handle.includes('n') ? -1 : 0;
+  const anchorX = -dirX * calc.cropWidth / 2;
+  const anchorY = -dirY * calc.cropHeight / 2;
 
-  if (aspect >= imageAspect) {
-    baseWidth = imageWidth;
-    baseHeight = imageWidth / aspect;
+  let width = dirX ? (pointerX - anchorX) * dirX : calc.cropWidth;
+  let height = dirY ? (pointerY - anchorY) * dirY : calc.cropHeight;
+
+  if (lockAspect) {
+    const { aspect } = cropState;
+    // The larger of the two dragged extents wins so the pointer stays on the box
+    if (dirX && dirY) {
+      width = Math.max(width, height * aspect);
+    } else if (dirY) {
+      width = height * aspect;
+    }
+
+    const maxScale = getMaxScale(imageWidth, imageHeight, aspect, rotation);
+    width = Math.min(calc.baseWidth, Math.max(calc.baseWidth / maxScale, width));
+    height = width / aspect;
   } else {
-    baseHeight = imageHeight;
-    baseWidth = imageHeight * aspect;
+    width = Math.max(MIN_CROP_SIZE, width);
+    height = Math.max(MIN_CROP_SIZE, height);
   }
 
-  // Max scale is when crop equals the smaller dimension
-  const maxScaleX = baseWidth / 50; // Min 50px crop
-  const maxScaleY = baseHeight / 50;
+  const currentCenterX = calc.cropX + calc.cropWidth / 2;
+  const currentCenterY = calc.cropY + calc.cropHeight / 2;
 
-  return Math.min(maxScaleX, maxScaleY, 10); // Cap at 10x
+  const centerFor = (w: number, h: number) => {
+    const offset = viewToSourceVector(
+      anchorX + dirX * w / 2,
+      anchorY + dirY * h / 2,
+      cropState
+    );
+    return { x: currentCenterX + offset.x, y: currentCenterY + offset.y };
+  };
+
+  const fits = (w: number, h: number) => {
+    const center = centerFor(w, h);
+    const bounds = getRotatedBounds(w, h, rotation);
+    const epsilon = 0.5;
+    return (
+      center.x - bounds.width / 2 >= -epsilon &&
+      center.y - bounds.height / 2 >= -epsilon &&
+      center.x + bounds.width / 2 <= imageWidth + epsilon &&
+      center.y + bounds.height / 2 <= imageHeight + epsilon
+    );
+  };
+
+  if (!fits(width, height)) {
+    // The current crop fits, so search between it and the requested size
+    let low = 0;
+    let high = 1;
+    for (let i = 0; i < 20; i++) {
+      const mid = (low + high) / 2;
+      if (fits(
+        calc.cropWidth + (width - calc.cropWidth) * mid,
+        calc.cropHeight + (height - calc.cropHeight) * mid
+      )) {
+        low = mid;
+      } else {
+        high = mid;
+      }
+    }
+    width = calc.cropWidth + (width - calc.cropWidth) * low;
+    height = calc.cropHeight + (height - calc.cropHeight) * low;
+  }
+
+  const aspect = lockAspect ? cropState.aspect : width / height;
+  const { baseWidth } = getBaseCropSize(imageWidth, imageHeight, aspect, rotation);
+  const center = centerFor(width, height);
+  const clamped = clampCropCenter(
+    center.x / imageWidth,
+    center.y / imageHeight,
+    width,
+    height,
+    imageWidth,
+    imageHeight,
+    rotation
+  );
+
+  return {
+    ...cropState,
+    centerX: clamped.centerX,
+    centerY: clamped.centerY,
+    scale: Math.max(1, baseWidth / width),
+    aspect,
+  };
 }
 
 /**
@@ -180,5 +395,34 @@ export function applyFramingToImage(
     centerY: sourceCropState.centerY,
     scale: sourceCropState.scale,
     aspect: targetAspect,
+    rotation: sourceCropState.rotation,
+    flipX: sourceCropState.flipX,
+    flipY: sourceCropState.flipY,
   };
 }
+
+/**
+ * Frame a crop of the given aspect around a focal point
+ * Zoom, rotation and flips carry over; the crop is centered on the point as
+ * far as the image edges allow.
+ */
+export function frameAroundFocalPoint(
+  cropState: CropState,
+  focalPoint: FocalPoint,
+  imageWidth: number,
+  imageHeight: number,
+  aspect: number
+): CropState {
+  const framed = { ...cropState, aspect };
+  const { cropWidth, cropHeight, rotation } = calculateCrop(imageWidth, imageHeight, framed);
+  const center = clampCropCenter(
+    focalPoint.x,
+    focalPoint.y,
+    cropWidth,
+    cropHeight,
+    imageWidth,
+    imageHeight,
+    rotation
+  );
+  return { ...framed, ...center };
+}
@@ -0,0 +1,16 @@
+import type { PixelBuffer } from '../resample';
+
+/**
+ * Encode with the bundled libavif WASM build, loaded on first use
+ */
+export async function encodeAvif(
+  pixels: PixelBuffer,
+  quality: number,
+  speed: number
+): Promise<ArrayBuffer> {
+  const { encode } = await import('@jsquash/avif');
+  return encode(new ImageData(pixels.data, pixels.width, pixels.height), {
+    quality,
+    speed,
+  });
+}
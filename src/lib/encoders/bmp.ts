@@ -0,0 +1,45 @@
+import type { PixelBuffer } from '../resample';
+
+const FILE_HEADER_SIZE = 14;
+const INFO_HEADER_SIZE = 40;
+
+/**
+ * Encode pixels as an uncompressed 24-bit BMP (alpha is dropped)
+ */
+export function encodeBmp({ data, width, height }: PixelBuffer): Uint8Array {
+  // Rows are stored bottom-up and padded to a multiple of 4 bytes
+  const rowSize = Math.ceil((width * 3) / 4) * 4;
+  const imageSize = rowSize * height;
+  const offset = FILE_HEADER_SIZE + INFO_HEADER_SIZE;
+  const bytes = new Uint8Array(offset + imageSize);
+  const view = new DataView(bytes.buffer);
+
+  // BITMAPFILEHEADER
+  bytes[0] = 0x42; // 'B'
+  bytes[1] = 0x4d; // 'M'
+  view.setUint32(2, bytes.length, true);
+  view.setUint32(10, offset, true);
+
+  // BITMAPINFOHEADER
+  view.setUint32(14, INFO_HEADER_SIZE, true);
+  view.setInt32(18, width, true);
+  view.setInt32(22, height, true);
+  view.setUint16(26, 1, true); // planes
+  view.setUint16(28, 24, true); // bits per pixel
+  view.setUint32(30, 0, true); // BI_RGB
+  view.setUint32(34, imageSize, true);
+  view.setInt32(38, 2835, true); // 72 dpi
+  view.setInt32(42, 2835, true);
+
+  for (let y = 0; y < height; y++) {
+    let o = offset + (height - 1 - y) * rowSize;
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      bytes[o++] = data[i + 2];
+      bytes[o++] = data[i + 1];
+      bytes[o++] = data[i];
+    }
+  }
+
+  return bytes;
+}
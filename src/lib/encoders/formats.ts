@@ -0,0 +1,21 @@
+import type { ExportFormat } from '@/types/image';
+
+export interface FormatInfo {
+  label: string;
+  extension: string;
+  mimeType: string;
+  lossy: boolean; // uses the quality setting
+  alpha: boolean; // can store transparency
+}
+
+export const FORMAT_INFO: Record<ExportFormat, FormatInfo> = {
+  jpeg: { label: 'JPEG', extension: 'jpg', mimeType: 'image/jpeg', lossy: true, alpha: false },
+  png: { label: 'PNG', extension: 'png', mimeType: 'image/png', lossy: false, alpha: true },
+  webp: { label: 'WebP', extension: 'webp', mimeType: 'image/webp', lossy: true, alpha: true },
+  avif: { label: 'AVIF', extension: 'avif', mimeType: 'image/avif', lossy: true, alpha: true },
+  gif: { label: 'GIF', extension: 'gif', mimeType: 'image/gif', lossy: false, alpha: true },
+  bmp: { label: 'BMP', extension: 'bmp', mimeType: 'image/bmp', lossy: false, alpha: false },
+  tiff: { label: 'TIFF', extension: 'tif', mimeType: 'image/tiff', lossy: false, alpha: true },
+};
+
+export const EXPORT_FORMATS = Object.keys(FORMAT_INFO) as ExportFormat[];
@@ -0,0 +1,135 @@
+import type { PixelBuffer } from '../resample';
+import { quantize } from './quantize';
+
+// GIF transparency is on/off; anything more transparent than this is dropped
+const ALPHA_CUTOFF = 128;
+
+/**
+ * Encode pixels as a single-frame GIF89a with a global palette of up to 256
+ * colors (255 plus a transparent entry when any pixel is transparent)
+ */
+export function encodeGif(pixels: PixelBuffer): Uint8Array {
+  const { data, width, height } = pixels;
+
+  let transparent = false;
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] < ALPHA_CUTOFF) {
+      transparent = true;
+      break;
+    }
+  }
+
+  const { palette, indices, colors } = quantize(pixels, {
+    maxColors: transparent ? 255 : 256,
+    includeAlpha: false,
+    skip: transparent ? (alpha) => alpha < ALPHA_CUTOFF : undefined,
+  });
+
+  const transparentIndex = colors;
+  if (transparent) {
+    for (let p = 0; p < indices.length; p++) {
+      if (data[p * 4 + 3] < ALPHA_CUTOFF) indices[p] = transparentIndex;
+    }
+  }
+
+  const usedColors = colors + (transparent ? 1 : 0);
+  const tableBits = Math.max(1, Math.ceil(Math.log2(usedColors)));
+  const tableSize = 1 << tableBits;
+
+  const out: number[] = [];
+  const writeShort = (value: number) => out.push(value & 0xff, (value >> 8) & 0xff);
+
+  // Header and logical screen descriptor with a global color table
+  out.push(...[...'GIF89a'].map((char) => char.charCodeAt(0)));
+  writeShort(width);
+  writeShort(height);
+  out.push(0x80 | ((tableBits - 1) << 4) | (tableBits - 1), 0, 0);
+
+  for (let k = 0; k < tableSize; k++) {
+    if (k < colors) {
+      out.push(palette[k * 4], palette[k * 4 + 1], palette[k * 4 + 2]);
+    } else {
+      out.push(0, 0, 0);
+    }
+  }
+
+  // Graphic control extension marking the transparent index
+  if (transparent) {
+    out.push(0x21, 0xf9, 0x04, 0x01, 0, 0, transparentIndex, 0);
+  }
+
+  // Image descriptor, no local table, not interlaced
+  out.push(0x2c);
+  writeShort(0);
+  writeShort(0);
+  writeShort(width);
+  writeShort(height);
+  out.push(0);
+
+  const minCodeSize = Math.max(2, tableBits);
+  out.push(minCodeSize);
+  const compressed = lzwEncode(indices, minCodeSize);
+  for (let i = 0; i < compressed.length; i += 255) {
+    const block = compressed.subarray(i, i + 255);
+    out.push(block.length);
+    for (let k = 0; k < block.length; k++) out.push(block[k]);
+  }
+  out.push(0); // block terminator
+
+  out.push(0x3b); // trailer
+  return Uint8Array.from(out);
+}
+
+/**
+ * GIF-flavoured LZW: LSB-first codes starting at minCodeSize + 1 bits, up to 12
+ */
+function lzwEncode(indices: Uint8Array, minCodeSize: number): Uint8Array {
+  const clearCode = 1 << minCodeSize;
+  const eoiCode = clearCode + 1;
+  const out: number[] = [];
+  let buffer = 0;
+  let bufferBits = 0;
+  let codeSize = minCodeSize + 1;
+
+  const write = (code: number) => {
+    buffer |= code << bufferBits;
+    bufferBits += codeSize;
+    while (bufferBits >= 8) {
+      out.push(buffer & 0xff);
+      buffer >>>= 8;
+      bufferBits -= 8;
+    }
+  };
+
+  let table = new Map<number, number>();
+  let nextCode = eoiCode + 1;
+
+  write(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const index = indices[i];
+    const key = (prefix << 8) | index;
+    const existing = table.get(key);
+    if (existing !== undefined) {
+      prefix = existing;
+      continue;
+    }
+
+    write(prefix);
+    if (nextCode === 4096) {
+      write(clearCode);
+      table = new Map();
+      nextCode = eoiCode + 1;
+      codeSize = minCodeSize + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+    prefix = index;
+  }
+  write(prefix);
+  write(eoiCode);
+
+  if (bufferBits > 0) out.push(buffer & 0xff);
+  return Uint8Array.from(out);
+}
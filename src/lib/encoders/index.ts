@@ -0,0 +1,95 @@
+import type { ExportSettings } from '@/types/image';
+import type { PixelBuffer } from '../resample';
+import { getContext2d, isOffscreenCanvas, type RenderCanvas } from '../canvas';
+import { FORMAT_INFO } from './formats';
+import { encodeAvif } from './avif';
+import { encodeBmp } from './bmp';
+import { encodeGif } from './gif';
+import { encodeMozJpeg } from './mozjpeg';
+import { encodeOptimizedPng } from './oxipng';
+import { encodeTiff } from './tiff';
+
+export { FORMAT_INFO, EXPORT_FORMATS, type FormatInfo } from './formats';
+
+// Whether canvas.toBlob can produce AVIF; checked on first AVIF export
+let nativeAvif: boolean | undefined;
+
+/**
+ * Encode a rendered canvas in the export format at the given quality (0-100)
+ *
+ * JPEG, PNG and WebP use the browser encoder, unless the optimized encoder
+ * is selected for JPEG (mozjpeg) or PNG (oxipng). AVIF uses the browser when
+ * it can, otherwise the bundled WASM encoder. GIF, BMP and TIFF are encoded
+ * in TypeScript.
+ */
+export async function encodeImage(
+  canvas: RenderCanvas,
+  settings: ExportSettings,
+  quality: number
+): Promise<Blob> {
+  const { mimeType } = FORMAT_INFO[settings.format];
+
+  if (usesOptimizedEncoder(settings)) {
+    const encoded =
+      settings.format === 'jpeg'
+        ? await encodeMozJpeg(getPixels(canvas), quality, settings)
+        : await encodeOptimizedPng(getPixels(canvas), settings);
+    return new Blob([encoded], { type: mimeType });
+  }
+
+  switch (settings.format) {
+    case 'avif': {
+      if (nativeAvif !== false) {
+        const blob = await canvasToBlob(canvas, mimeType, quality / 100);
+        // Browsers without an AVIF encoder silently fall back to PNG
+        nativeAvif = blob.type === mimeType;
+        if (nativeAvif) return blob;
+      }
+      const encoded = await encodeAvif(getPixels(canvas), quality, settings.avifSpeed);
+      return new Blob([encoded], { type: mimeType });
+    }
+    case 'gif':
+      return new Blob([encodeGif(getPixels(canvas))], { type: mimeType });
+    case 'bmp':
+      return new Blob([encodeBmp(getPixels(canvas))], { type: mimeType });
+    case 'tiff':
+      return new Blob([encodeTiff(getPixels(canvas), settings.tiffCompression)], { type: mimeType });
+    default:
+      return canvasToBlob(canvas, mimeType, quality / 100);
+  }
+}
+
+/**
+ * Whether the settings route this format through a bundled WASM codec instead of the browser
+ */
+export function usesOptimizedEncoder(settings: ExportSettings): boolean {
+  return settings.encoder === 'optimized' && (settings.format === 'jpeg' || settings.format === 'png');
+}
+
+function getPixels(canvas: RenderCanvas): PixelBuffer {
+  return getContext2d(canvas).getImageData(0, 0, canvas.width, canvas.height);
+}
+
+export function canvasToBlob(
+  canvas: RenderCanvas,
+  mimeType: string,
+  quality: number
+): Promise<Blob> {
+  if (isOffscreenCanvas(canvas)) {
+    return canvas.convertToBlob({ type: mimeType, quality });
+  }
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => {
+        if (blob) {
+          resolve(blob);
+        } else {
+          reject(new Error('Failed to create blob'));
+        }
+      },
+      mimeType,
+      quality
+    );
+  });
+}
@@ -0,0 +1,25 @@
+import type { ExportSettings } from '@/types/image';
+import type { PixelBuffer } from '../resample';
+
+/**
+ * Encode with the bundled mozjpeg WASM build, loaded on first use
+ *
+ * Trellis adds mozjpeg's multipass trellis quantization on top of its
+ * defaults; 4:4:4 keeps full chroma resolution for text and sharp color edges.
+ */
+export async function encodeMozJpeg(
+  pixels: PixelBuffer,
+  quality: number,
+  settings: ExportSettings
+): Promise<ArrayBuffer> {
+  const { encode } = await import('@jsquash/jpeg');
+  return encode(new ImageData(pixels.data, pixels.width, pixels.height), {
+    quality,
+    progressive: settings.jpegProgressive,
+    trellis_multipass: settings.jpegTrellis,
+    trellis_opt_zero: settings.jpegTrellis,
+    trellis_opt_table: settings.jpegTrellis,
+    auto_subsample: false,
+    chroma_subsample: settings.chromaSubsampling === '444' ? 1 : 2,
+  });
+}
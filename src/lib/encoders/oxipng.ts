@@ -0,0 +1,36 @@
+import type { ExportSettings } from '@/types/image';
+import type { PixelBuffer } from '../resample';
+import { quantize } from './quantize';
+
+// oxipng effort (0-6); higher levels cost a lot of time for little gain
+const OXIPNG_LEVEL = 3;
+
+/**
+ * Encode an optimized PNG with the bundled oxipng WASM build
+ *
+ * With color reduction the image is first quantized to a palette, which
+ * oxipng then stores as an indexed PNG.
+ */
+export async function encodeOptimizedPng(
+  pixels: PixelBuffer,
+  settings: ExportSettings
+): Promise<ArrayBuffer> {
+  const source = settings.pngQuantize
+    ? applyPalette(pixels, settings.pngColors)
+    : pixels;
+
+  const { optimise } = await import('@jsquash/oxipng');
+  return optimise(new ImageData(source.data, source.width, source.height), {
+    level: OXIPNG_LEVEL,
+    optimiseAlpha: true,
+  });
+}
+
+function applyPalette(pixels: PixelBuffer, maxColors: number): PixelBuffer {
+  const { palette, indices } = quantize(pixels, { maxColors, includeAlpha: true });
+  const data = new Uint8ClampedArray(pixels.data.length);
+  for (let p = 0; p < indices.length; p++) {
+    data.set(palette.subarray(indices[p] * 4, indices[p] * 4 + 4), p * 4);
+  }
+  return { data, width: pixels.width, height: pixels.height };
+}
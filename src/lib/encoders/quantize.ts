@@ -0,0 +1,178 @@
+import type { PixelBuffer } from '../resample';
+
+export interface QuantizedImage {
+  palette: Uint8Array; // RGBA entries
+  indices: Uint8Array; // one palette index per pixel
+  colors: number;
+}
+
+interface QuantizeOptions {
+  maxColors: number;
+  // Keep alpha in the palette (PNG). Without it alpha is ignored (GIF handles transparency itself).
+  includeAlpha: boolean;
+  // Pixels to leave out of the palette; they get index 0 and the caller decides what that means
+  skip?: (alpha: number) => boolean;
+}
+
+// Histogram precision: 5 bits per color channel, 4 bits of alpha
+const COLOR_SHIFT = 3;
+const ALPHA_SHIFT = 4;
+
+/**
+ * Reduce an image to at most maxColors palette entries
+ *
+ * Images that already have few enough colors get an exact palette. Otherwise
+ * colors are bucketed into a histogram and split with median cut, each
+ * palette entry being the pixel-weighted average of its box.
+ */
+export function quantize(pixels: PixelBuffer, options: QuantizeOptions): QuantizedImage {
+  return (
+    quantizeExact(pixels, options) ?? quantizeMedianCut(pixels, options)
+  );
+}
+
+function quantizeExact(
+  { data, width, height }: PixelBuffer,
+  { maxColors, includeAlpha, skip }: QuantizeOptions
+): QuantizedImage | null {
+  const lookup = new Map<number, number>();
+  const palette: number[] = [];
+  const indices = new Uint8Array(width * height);
+
+  for (let p = 0; p < width * height; p++) {
+    const i = p * 4;
+    const alpha = includeAlpha ? data[i + 3] : 255;
+    if (skip?.(data[i + 3])) continue;
+
+    const key = ((data[i] << 16) | (data[i + 1] << 8) | data[i + 2]) * 256 + alpha;
+    let index = lookup.get(key);
+    if (index === undefined) {
+      if (lookup.size >= maxColors) return null;
+      index = lookup.size;
+      lookup.set(key, index);
+      palette.push(data[i], data[i + 1], data[i + 2], alpha);
+    }
+    indices[p] = index;
+  }
+
+  return {
+    palette: Uint8Array.from(palette),
+    indices,
+    colors: lookup.size,
+  };
+}
+
+interface Box {
+  buckets: number[];
+  pixels: number;
+}
+
+function quantizeMedianCut(
+  { data, width, height }: PixelBuffer,
+  { maxColors, includeAlpha, skip }: QuantizeOptions
+): QuantizedImage {
+  const alphaBits = includeAlpha ? 8 - ALPHA_SHIFT : 0;
+  const bucketCount = 1 << (15 + alphaBits);
+  const counts = new Uint32Array(bucketCount);
+  const sums = new Float64Array(bucketCount * 4);
+  const pixelBuckets = new Int32Array(width * height).fill(-1);
+
+  for (let p = 0; p < width * height; p++) {
+    const i = p * 4;
+    if (skip?.(data[i + 3])) continue;
+
+    const alpha = includeAlpha ? data[i + 3] : 255;
+    let bucket =
+      ((data[i] >> COLOR_SHIFT) << 10) |
+      ((data[i + 1] >> COLOR_SHIFT) << 5) |
+      (data[i + 2] >> COLOR_SHIFT);
+    if (includeAlpha) bucket = (bucket << alphaBits) | (alpha >> ALPHA_SHIFT);
+
+    pixelBuckets[p] = bucket;
+    counts[bucket]++;
+    sums[bucket * 4] += data[i];
+    sums[bucket * 4 + 1] += data[i + 1];
+    sums[bucket * 4 + 2] += data[i + 2];
+    sums[bucket * 4 + 3] += alpha;
+  }
+
+  const used: number[] = [];
+  let total = 0;
+  for (let bucket = 0; bucket < bucketCount; bucket++) {
+    if (counts[bucket] > 0) {
+      used.push(bucket);
+      total += counts[bucket];
+    }
+  }
+
+  // Mean color of a bucket, per channel
+  const mean = (bucket: number, channel: number) => sums[bucket * 4 + channel] / counts[bucket];
+  const channels = includeAlpha ? 4 : 3;
+
+  const boxes: Box[] = [{ buckets: used, pixels: total }];
+  while (boxes.length < maxColors) {
+    // Split the most populous box that still has more than one color
+    let target = -1;
+    for (let b = 0; b < boxes.length; b++) {
+      if (boxes[b].buckets.length > 1 && (target < 0 || boxes[b].pixels > boxes[target].pixels)) {
+        target = b;
+      }
+    }
+    if (target < 0) break;
+
+    const box = boxes[target];
+    let channel = 0;
+    let widest = -1;
+    for (let c = 0; c < channels; c++) {
+      let min = Infinity;
+      let max = -Infinity;
+      for (const bucket of box.buckets) {
+        const value = mean(bucket, c);
+        if (value < min) min = value;
+        if (value > max) max = value;
+      }
+      if (max - min > widest) {
+        widest = max - min;
+        channel = c;
+      }
+    }
+
+    box.buckets.sort((a, b) => mean(a, channel) - mean(b, channel));
+    let running = 0;
+    let split = 1;
+    for (let k = 0; k < box.buckets.length - 1; k++) {
+      running += counts[box.buckets[k]];
+      split = k + 1;
+      if (running >= box.pixels / 2) break;
+    }
+
+    const lower = box.buckets.slice(0, split);
+    const upper = box.buckets.slice(split);
+    const lowerPixels = lower.reduce((sum, bucket) => sum + counts[bucket], 0);
+    boxes.splice(
+      target,
+      1,
+      { buckets: lower, pixels: lowerPixels },
+      { buckets: upper, pixels: box.pixels - lowerPixels }
+    );
+  }
+
+  // Palette from the weighted average of each box; buckets map to their box
+  const palette = new Uint8Array(Math.max(1, boxes.length) * 4);
+  const bucketIndex = new Uint8Array(bucketCount);
+  boxes.forEach((box, index) => {
+    const sum = [0, 0, 0, 0];
+    for (const bucket of box.buckets) {
+      for (let c = 0; c < 4; c++) sum[c] += sums[bucket * 4 + c];
+      bucketIndex[bucket] = index;
+    }
+    for (let c = 0; c < 4; c++) palette[index * 4 + c] = Math.round(sum[c] / box.pixels);
+  });
+
+  const indices = new Uint8Array(width * height);
+  for (let p = 0; p < indices.length; p++) {
+    if (pixelBuckets[p] >= 0) indices[p] = bucketIndex[pixelBuckets[p]];
+  }
+
+  return { palette, indices, colors: Math.max(1, boxes.length) };
+}
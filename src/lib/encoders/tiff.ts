@@ -0,0 +1,273 @@
+import type { TiffCompression } from '@/types/image';
+import type { PixelBuffer } from '../resample';
+
+// Uncompressed bytes per strip; readers handle small strips with less memory
+const STRIP_SIZE = 64 * 1024;
+
+const COMPRESSION_CODES: Record<TiffCompression, number> = {
+  none: 1,
+  lzw: 5,
+  packbits: 32773,
+};
+
+// IFD field types
+const SHORT = 3;
+const LONG = 4;
+const RATIONAL = 5;
+
+interface Entry {
+  tag: number;
+  type: typeof SHORT | typeof LONG | typeof RATIONAL;
+  values: number[]; // rationals as numerator, denominator pairs
+}
+
+/**
+ * Encode pixels as a baseline 8-bit RGB (or RGBA when any pixel is
+ * transparent) TIFF, little-endian, chunky, in strips
+ */
+export function encodeTiff(pixels: PixelBuffer, compression: TiffCompression): Uint8Array {
+  const { width, height } = pixels;
+  const hasAlpha = hasTransparency(pixels.data);
+  const samples = hasAlpha ? 4 : 3;
+  const rowBytes = width * samples;
+  const rowsPerStrip = Math.max(1, Math.floor(STRIP_SIZE / rowBytes));
+
+  const strips: Uint8Array[] = [];
+  for (let y = 0; y < height; y += rowsPerStrip) {
+    const rows = Math.min(rowsPerStrip, height - y);
+    const strip = packRows(pixels, y, rows, samples);
+    if (compression === 'lzw') {
+      applyHorizontalPredictor(strip, rowBytes, samples);
+      strips.push(lzwEncode(strip));
+    } else if (compression === 'packbits') {
+      strips.push(packBitsEncode(strip, rowBytes));
+    } else {
+      strips.push(strip);
+    }
+  }
+
+  const entries: Entry[] = [
+    { tag: 256, type: LONG, values: [width] }, // ImageWidth
+    { tag: 257, type: LONG, values: [height] }, // ImageLength
+    { tag: 258, type: SHORT, values: new Array(samples).fill(8) }, // BitsPerSample
+    { tag: 259, type: SHORT, values: [COMPRESSION_CODES[compression]] },
+    { tag: 262, type: SHORT, values: [2] }, // PhotometricInterpretation: RGB
+    { tag: 273, type: LONG, values: [] }, // StripOffsets, filled in below
+    { tag: 277, type: SHORT, values: [samples] }, // SamplesPerPixel
+    { tag: 278, type: LONG, values: [rowsPerStrip] },
+    { tag: 279, type: LONG, values: strips.map((strip) => strip.length) }, // StripByteCounts
+    { tag: 282, type: RATIONAL, values: [72, 1] }, // XResolution
+    { tag: 283, type: RATIONAL, values: [72, 1] }, // YResolution
+    { tag: 284, type: SHORT, values: [1] }, // PlanarConfiguration: chunky
+    { tag: 296, type: SHORT, values: [2] }, // ResolutionUnit: inch
+  ];
+  if (compression === 'lzw') {
+    entries.push({ tag: 317, type: SHORT, values: [2] }); // Predictor: horizontal
+  }
+  if (hasAlpha) {
+    entries.push({ tag: 338, type: SHORT, values: [2] }); // ExtraSamples: unassociated alpha
+  }
+  entries.sort((a, b) => a.tag - b.tag);
+
+  // Layout: header, IFD, out-of-line values, strips
+  const ifdOffset = 8;
+  const ifdSize = 2 + entries.length * 12 + 4;
+  let extraOffset = ifdOffset + ifdSize;
+  const extraOffsets = new Map<Entry, number>();
+  for (const entry of entries) {
+    const size = valueSize(entry);
+    if (entry.tag === 273 ? strips.length * 4 > 4 : size > 4) {
+      extraOffsets.set(entry, extraOffset);
+      extraOffset += entry.tag === 273 ? strips.length * 4 : size;
+      extraOffset += extraOffset % 2; // values start on word boundaries
+    }
+  }
+
+  const stripOffsets: number[] = [];
+  let dataOffset = extraOffset;
+  for (const strip of strips) {
+    stripOffsets.push(dataOffset);
+    dataOffset += strip.length;
+  }
+  entries.find((entry) => entry.tag === 273).values = stripOffsets;
+
+  const bytes = new Uint8Array(dataOffset);
+  const view = new DataView(bytes.buffer);
+  bytes[0] = 0x49; // 'I'
+  bytes[1] = 0x49;
+  view.setUint16(2, 42, true);
+  view.setUint32(4, ifdOffset, true);
+
+  view.setUint16(ifdOffset, entries.length, true);
+  entries.forEach((entry, index) => {
+    const at = ifdOffset + 2 + index * 12;
+    view.setUint16(at, entry.tag, true);
+    view.setUint16(at + 2, entry.type, true);
+    view.setUint32(at + 4, entry.type === RATIONAL ? entry.values.length / 2 : entry.values.length, true);
+    const target = extraOffsets.get(entry);
+    if (target !== undefined) {
+      view.setUint32(at + 8, target, true);
+      writeValues(view, target, entry);
+    } else {
+      writeValues(view, at + 8, entry);
+    }
+  });
+  view.setUint32(ifdOffset + 2 + entries.length * 12, 0, true); // no next IFD
+
+  strips.forEach((strip, index) => bytes.set(strip, stripOffsets[index]));
+  return bytes;
+}
+
+function hasTransparency(data: Uint8ClampedArray): boolean {
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] < 255) return true;
+  }
+  return false;
+}
+
+function valueSize(entry: Entry): number {
+  if (entry.type === SHORT) return entry.values.length * 2;
+  return entry.values.length * 4;
+}
+
+function writeValues(view: DataView, offset: number, entry: Entry): void {
+  entry.values.forEach((value, index) => {
+    if (entry.type === SHORT) {
+      view.setUint16(offset + index * 2, value, true);
+    } else {
+      view.setUint32(offset + index * 4, value, true);
+    }
+  });
+}
+
+function packRows(pixels: PixelBuffer, firstRow: number, rows: number, samples: number): Uint8Array {
+  const { data, width } = pixels;
+  const out = new Uint8Array(rows * width * samples);
+  let o = 0;
+  for (let y = firstRow; y < firstRow + rows; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      out[o++] = data[i];
+      out[o++] = data[i + 1];
+      out[o++] = data[i + 2];
+      if (samples === 4) out[o++] = data[i + 3];
+    }
+  }
+  return out;
+}
+
+/**
+ * Predictor 2: store each sample as the difference from the same sample of the previous pixel
+ */
+function applyHorizontalPredictor(strip: Uint8Array, rowBytes: number, samples: number): void {
+  for (let row = 0; row < strip.length; row += rowBytes) {
+    for (let i = row + rowBytes - 1; i >= row + samples; i--) {
+      strip[i] = (strip[i] - strip[i - samples]) & 0xff;
+    }
+  }
+}
+
+/**
+ * Apple PackBits run-length encoding, one row at a time as the spec requires
+ */
+function packBitsEncode(strip: Uint8Array, rowBytes: number): Uint8Array {
+  const out: number[] = [];
+  for (let row = 0; row < strip.length; row += rowBytes) {
+    const end = row + rowBytes;
+    let i = row;
+    while (i < end) {
+      // Run of identical bytes
+      let run = 1;
+      while (i + run < end && run < 128 && strip[i + run] === strip[i]) run++;
+      if (run > 1) {
+        out.push(257 - run, strip[i]);
+        i += run;
+        continue;
+      }
+
+      // Literal bytes up to the next run of 3+
+      let literal = 1;
+      while (
+        i + literal < end &&
+        literal < 128 &&
+        !(i + literal + 2 < end &&
+          strip[i + literal] === strip[i + literal + 1] &&
+          strip[i + literal] === strip[i + literal + 2])
+      ) {
+        literal++;
+      }
+      out.push(literal - 1);
+      for (let k = 0; k < literal; k++) out.push(strip[i + k]);
+      i += literal;
+    }
+  }
+  return Uint8Array.from(out);
+}
+
+const LZW_CLEAR = 256;
+const LZW_EOI = 257;
+const LZW_FIRST = 258;
+const LZW_MAX_CODE = 4095;
+
+/**
+ * TIFF-flavoured LZW: MSB-first codes of 9-12 bits, widened as the table
+ * fills (readers switch one code early), cleared when the table is full
+ */
+function lzwEncode(input: Uint8Array): Uint8Array {
+  const out: number[] = [];
+  let buffer = 0;
+  let bufferBits = 0;
+  let codeBits = 9;
+
+  const write = (code: number) => {
+    buffer = (buffer << codeBits) | code;
+    bufferBits += codeBits;
+    while (bufferBits >= 8) {
+      out.push((buffer >>> (bufferBits - 8)) & 0xff);
+      bufferBits -= 8;
+    }
+    buffer &= (1 << bufferBits) - 1;
+  };
+
+  let table = new Map<number, number>();
+  let nextCode = LZW_FIRST;
+
+  // Account for a new table entry, widening or resetting as needed
+  const addEntry = () => {
+    nextCode++;
+    if (nextCode === LZW_MAX_CODE - 1) {
+      write(LZW_CLEAR);
+      table = new Map();
+      nextCode = LZW_FIRST;
+      codeBits = 9;
+    } else if (nextCode > (1 << codeBits) - 1) {
+      codeBits++;
+    }
+  };
+
+  write(LZW_CLEAR);
+  if (input.length === 0) {
+    write(LZW_EOI);
+  } else {
+    let prefix = input[0];
+    for (let i = 1; i < input.length; i++) {
+      const byte = input[i];
+      const key = prefix * 256 + byte;
+      const existing = table.get(key);
+      if (existing !== undefined) {
+        prefix = existing;
+        continue;
+      }
+      write(prefix);
+      table.set(key, nextCode);
+      addEntry();
+      prefix = byte;
+    }
+    write(prefix);
+    addEntry();
+    write(LZW_EOI);
+  }
+
+  if (bufferBits > 0) out.push((buffer << (8 - bufferBits)) & 0xff);
+  return Uint8Array.from(out);
+}
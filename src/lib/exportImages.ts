@@ -1,53 +1,144 @@
-import JSZip from 'jszip';
 import { saveAs } from 'file-saver';
-import type { ImageFile, ExportSettings } from '@/types/image';
-import { getCropRect } from './cropMath';
-import { processImage, generateExportFilename } from './imageUtils';
+import type { ImageFile, ExportSettings, ExportResult, ExportItemState, ExportProgress } from '@/types/image';
+import { getOutputLayout, getSourceRect } from './outputLayout';
+import { generateExportFilename, getImageFolder, hashBlob, type ProcessedImage } from './imageUtils';
+import { createFilenameDeduplicator, templateUsesHash } from './filenameTemplate';
+import { getExportJobs, getProfileCropState, type ExportJob } from './exportProfiles';
+import { createExportWorkerPool, isAbortError, type ExportWorkerPool } from './exportWorkerPool';
+import { exportsToFolder, openExportOutput, type ExportOutput } from './exportOutput';
+import { buildExportManifest, buildPictureSnippets, HTML_SNIPPETS_FILENAME, MANIFEST_FILENAME } from './exportManifest';
+
+export interface ExportOptions {
+  signal?: AbortSignal; // aborting stops the workers; the export rejects with an AbortError
+  onProgress?: (progress: ExportProgress) => void;
+}
+
+// Images rendered ahead of the one being written, per worker; more would only buffer encoded files
+const RENDER_AHEAD_PER_WORKER = 2;
 
 /**
- * Export all images as a ZIP file
+ * Export all images as a ZIP file, or into a folder the user picks
+ * With export profiles, every image is exported once per profile, each
+ * profile in its own subfolder, and the subfolders of imported folders are
+ * mirrored unless flattened. Rendering and encoding run in a worker pool, a
+ * few images ahead of the file being written; files are written out in order
+ * and the next image is only started once one is written, so encoded images
+ * don't pile up in memory while the output is slow.
+ * Resolves with what happened to each file (size, chosen quality, size limit misses, skips).
  */
 export async function exportImages(
   images: ImageFile[],
   settings: ExportSettings,
-  onProgress?: (current: number, total: number) => void
-): Promise<void> {
+  { signal, onProgress }: ExportOptions = {}
+): Promise<ExportResult[]> {
   if (images.length === 0) {
     throw new Error('No images to export');
   }
+  signal?.throwIfAborted();
+
+  const jobs = getExportJobs(settings);
+  const tasks = jobs.flatMap((job) =>
+    images
+      .map((image, index) => ({ job, image, index }))
+      .filter(({ image }) => image.bitmap)
+  );
+
+  const items: ExportProgress['items'] = tasks.map(({ job, image }) => ({
+    label: job.profile ? `${image.name} · ${job.profile.name}` : image.name,
+    state: 'queued',
+  }));
+  let done = 0;
+  const setItemState = (n: number, state: ExportItemState) => {
+    items[n] = { ...items[n], state };
+    if (state === 'done') done++;
+    onProgress?.({ done, total: tasks.length, items: [...items] });
+  };
+  onProgress?.({ done, total: tasks.length, items: [...items] });
 
-  // Single image - download directly
-  if (images.length === 1) {
-    const image = images[0];
-    if (!image.bitmap) throw new Error('Image not loaded');
-
-    const cropRect = getCropRect(image.originalWidth, image.originalHeight, image.cropState);
-    const blob = await processImage(image.bitmap, cropRect, settings);
-    const filename = generateExportFilename(0, settings);
-    
-    saveAs(blob, filename);
-    onProgress?.(1, 1);
-    return;
+  // Single image - download directly, unless the manifest or snippets need a ZIP
+  const toFolder = exportsToFolder(settings);
+  const single =
+    !toFolder && tasks.length === 1 && !settings.writeManifest && !settings.writeHtmlSnippets;
+  const date = new Date();
+
+  // Opened before any work starts: the pickers need the click that started the export
+  let output: ExportOutput | null = null;
+  if (!single) {
+    output = await openExportOutput(settings, `mybirme-export-${date.toISOString().slice(0, 10)}.zip`);
   }
 
-  // Multiple images - create ZIP
-  const zip = new JSZip();
+  const pool = createExportWorkerPool();
+  const cancel = () => pool.terminate();
+  signal?.addEventListener('abort', cancel);
 
-  for (let i = 0; i < images.length; i++) {
-    const image = images[i];
-    if (!image.bitmap) continue;
+  try {
+    signal?.throwIfAborted();
+    const pending: Array<Promise<ProcessedImage>> = [];
+    const submit = (n: number) => {
+      if (n >= tasks.length) return;
+      const { job, image } = tasks[n];
+      pending[n] = renderForExport(pool, image, job, () => setItemState(n, 'processing'));
+      // Failures are handled in order below; don't report the later ones as unhandled
+      pending[n].catch(() => undefined);
+    };
+    const renderAhead = pool.size * RENDER_AHEAD_PER_WORKER;
+    for (let n = 0; n < renderAhead; n++) submit(n);
 
-    const cropRect = getCropRect(image.originalWidth, image.originalHeight, image.cropState);
-    const blob = await processImage(image.bitmap, cropRect, settings);
-    const filename = generateExportFilename(i, settings);
+    const results: ExportResult[] = [];
+    const dedupers = new Map(jobs.map((job) => [job, createFilenameDeduplicator()]));
 
-    zip.file(filename, blob);
-    onProgress?.(i + 1, images.length);
-  }
+    for (let n = 0; n < tasks.length; n++) {
+      const { job, image, index } = tasks[n];
+      let processed: ProcessedImage;
+      try {
+        processed = await pending[n];
+      } catch (error) {
+        if (!isAbortError(error)) setItemState(n, 'failed');
+        throw error;
+      }
+      pending[n] = undefined;
 
-  const zipBlob = await zip.generateAsync({ type: 'blob' });
-  const timestamp = new Date().toISOString().slice(0, 10);
-  saveAs(zipBlob, `mybirme-export-${timestamp}.zip`);
+      const filename = await getExportFilename(image, index, job.settings, processed, date);
+      if (single) {
+        saveAs(processed.blob, filename);
+        results.push(toExportResult(image, filename, job, processed, false));
+      } else {
+        const path = getOutputPath(job, dedupers.get(job)(joinPath(getSubfolder(image, settings), filename)));
+        const written = await output.addFile(path, processed.blob, date);
+        results.push(toExportResult(image, written ?? path, job, processed, written === null));
+      }
+      setItemState(n, 'done');
+      submit(n + renderAhead);
+    }
+
+    if (output) {
+      if (settings.writeManifest) {
+        const manifest = buildExportManifest(images, results, jobs, date);
+        await output.addFile(
+          MANIFEST_FILENAME,
+          new Blob([JSON.stringify(manifest, null, 2)], { type: 'application/json' }),
+          date
+        );
+      }
+      if (settings.writeHtmlSnippets) {
+        await output.addFile(
+          HTML_SNIPPETS_FILENAME,
+          new Blob([buildPictureSnippets(images, results)], { type: 'text/html' }),
+          date
+        );
+      }
+      signal?.throwIfAborted();
+      await output.finish();
+    }
+    return results;
+  } catch (error) {
+    // Don't let a failing cleanup hide the original error
+    await output?.abort().catch(() => undefined);
+    throw error;
+  } finally {
+    signal?.removeEventListener('abort', cancel);
+    pool.terminate();
+  }
 }
 
 /**
@@ -57,12 +148,130 @@ export async function exportSingleImage(
   image: ImageFile,
   settings: ExportSettings,
   index: number = 0
-): Promise<void> {
+): Promise<ExportResult> {
   if (!image.bitmap) throw new Error('Image not loaded');
 
-  const cropRect = getCropRect(image.originalWidth, image.originalHeight, image.cropState);
-  const blob = await processImage(image.bitmap, cropRect, settings);
-  const filename = generateExportFilename(index, settings);
+  const [job] = getExportJobs(settings);
+  const pool = createExportWorkerPool();
+  try {
+    const processed = await renderForExport(pool, image, job);
+    const filename = await getExportFilename(image, index, job.settings, processed);
 
-  saveAs(blob, filename);
+    saveAs(processed.blob, filename);
+    return toExportResult(image, filename, job, processed, false);
+  } finally {
+    pool.terminate();
+  }
+}
+
+/**
+ * Filenames the next export would produce, without rendering anything
+ * The content hash isn't known until encoding, so {hash} shows a placeholder.
+ */
+export function previewExportFilenames(
+  images: ImageFile[],
+  settings: ExportSettings
+): Array<{ filename: string; renamed: boolean }> {
+  const date = new Date();
+
+  return getExportJobs(settings).flatMap((job) => {
+    const dedupe = createFilenameDeduplicator();
+
+    return images.map((image, index) => {
+      const source = getSourceRect(
+        image.originalWidth,
+        image.originalHeight,
+        getProfileCropState(image, job.settings, job.profile?.id),
+        job.settings
+      );
+      const layout = getOutputLayout(source.width, source.height, job.settings);
+      const filename = generateExportFilename(
+        image,
+        index,
+        job.settings,
+        { width: layout.canvasWidth, height: layout.canvasHeight, hash: 'xxxxxxxx' },
+        date
+      );
+      const path = joinPath(getSubfolder(image, settings), filename);
+      const unique = dedupe(path);
+      return { filename: getOutputPath(job, unique), renamed: unique !== path };
+    });
+  });
+}
+
+/**
+ * Subfolder to write an image to when mirroring the imported folders
+ * The picked folder itself is the export root, so its name is dropped.
+ */
+function getSubfolder(image: ImageFile, settings: ExportSettings): string {
+  if (settings.folderStructure === 'flatten') return '';
+  const folder = getImageFolder(image);
+  const slash = folder.indexOf('/');
+  return slash >= 0 ? folder.slice(slash + 1) : '';
+}
+
+function joinPath(folder: string, filename: string): string {
+  return folder ? `${folder}/${filename}` : filename;
+}
+
+// Profiles each get their own top-level folder
+function getOutputPath(job: ExportJob, path: string): string {
+  return joinPath(job.folder ?? '', path);
+}
+
+function renderForExport(
+  pool: ExportWorkerPool,
+  image: ImageFile,
+  job: ExportJob,
+  onStart?: () => void
+): Promise<ProcessedImage> {
+  const cropRect = getSourceRect(
+    image.originalWidth,
+    image.originalHeight,
+    getProfileCropState(image, job.settings, job.profile?.id),
+    job.settings
+  );
+  return pool.process(image.bitmap, cropRect, job.settings, onStart);
+}
+
+// Only hash the output when the template asks for it
+async function getExportFilename(
+  image: ImageFile,
+  index: number,
+  settings: ExportSettings,
+  processed: ProcessedImage,
+  date?: Date
+): Promise<string> {
+  const hash = templateUsesHash(settings.filenameTemplate)
+    ? await hashBlob(processed.blob)
+    : undefined;
+  return generateExportFilename(
+    image,
+    index,
+    settings,
+    { width: processed.width, height: processed.height, hash },
+    date
+  );
+}
+
+function toExportResult(
+  image: ImageFile,
+  filename: string,
+  job: ExportJob,
+  processed: ProcessedImage,
+  skipped: boolean
+): ExportResult {
+  return {
+    imageId: image.id,
+    profileId: job.profile?.id ?? null,
+    filename,
+    skipped,
+    width: processed.width,
+    height: processed.height,
+    format: job.settings.format,
+    bytes: processed.blob.size,
+    quality: processed.quality,
+    overSizeLimit: processed.overSizeLimit,
+    browserBytes: processed.browserBytes,
+  };
 }
@@ -0,0 +1,145 @@
+import type { ExportFormat, ExportResult, ImageFile } from '@/types/image';
+import type { ExportJob } from './exportProfiles';
+import { FORMAT_INFO } from './encoders';
+import { getBaseName } from './filenameTemplate';
+
+export const MANIFEST_FILENAME = 'manifest.json';
+export const HTML_SNIPPETS_FILENAME = 'picture-snippets.html';
+
+export interface ManifestFile {
+  path: string; // inside the ZIP
+  profile: string | null; // profile name
+  width: number;
+  height: number;
+  bytes: number;
+  format: ExportFormat;
+  mimeType: string;
+}
+
+export interface ExportManifest {
+  generator: string;
+  exportedAt: string; // ISO 8601
+  images: Array<{
+    source: string; // original filename
+    sourceWidth: number;
+    sourceHeight: number;
+    files: ManifestFile[];
+  }>;
+}
+
+// The <img> fallback uses the first of these the export has; the rest become <source>s
+const FALLBACK_FORMATS: ExportFormat[] = ['jpeg', 'png', 'gif', 'webp'];
+// <source> order: browsers take the first type they support
+const SOURCE_FORMATS: ExportFormat[] = ['avif', 'webp', 'jpeg', 'png', 'gif', 'tiff', 'bmp'];
+
+/**
+ * Describe every exported file, grouped by source image
+ */
+export function buildExportManifest(
+  images: ImageFile[],
+  results: ExportResult[],
+  jobs: ExportJob[],
+  date: Date = new Date()
+): ExportManifest {
+  const profileNames = new Map(
+    jobs.flatMap((job) => (job.profile ? [[job.profile.id, job.profile.name] as const] : []))
+  );
+
+  return {
+    generator: 'MyBIRME',
+    exportedAt: date.toISOString(),
+    images: images
+      .map((image) => ({
+        source: image.name,
+        sourceWidth: image.originalWidth,
+        sourceHeight: image.originalHeight,
+        files: results
+          .filter((result) => result.imageId === image.id)
+          .map((result) => ({
+            path: result.filename,
+            profile: result.profileId ? profileNames.get(result.profileId) ?? null : null,
+            width: result.width,
+            height: result.height,
+            bytes: result.bytes,
+            format: result.format,
+            mimeType: FORMAT_INFO[result.format].mimeType,
+          })),
+      }))
+      .filter((entry) => entry.files.length > 0),
+  };
+}
+
+/**
+ * Ready-to-paste markup for each image: an <img srcset> when the files
+ * share one format, a <picture> with a <source> per extra format otherwise
+ * Paths are relative to the ZIP root.
+ */
+export function buildPictureSnippets(images: ImageFile[], results: ExportResult[]): string {
+  const snippets = images.flatMap((image) => {
+    const files = results.filter((result) => result.imageId === image.id);
+    if (files.length === 0) return [];
+
+    return [`<!-- ${escapeComment(image.name)} -->\n${getPictureMarkup(image, files)}`];
+  });
+
+  return `${snippets.join('\n\n')}\n`;
+}
+
+function getPictureMarkup(image: ImageFile, files: ExportResult[]): string {
+  const formats = [...new Set(files.map((file) => file.format))];
+  const fallbackFormat = FALLBACK_FORMATS.find((format) => formats.includes(format)) ?? formats[0];
+
+  const fallback = sortByWidth(files.filter((file) => file.format === fallbackFormat));
+  const largest = fallback[fallback.length - 1];
+  const img = [
+    `<img src="${escapeAttribute(toUrl(largest.filename))}"`,
+    fallback.length > 1 ? `srcset="${escapeAttribute(getSrcset(fallback))}"` : null,
+    fallback.length > 1 ? 'sizes="100vw"' : null,
+    `width="${largest.width}" height="${largest.height}"`,
+    `alt="${escapeAttribute(getBaseName(image.name))}"`,
+    'loading="lazy">',
+  ]
+    .filter(Boolean)
+    .join(' ');
+
+  if (formats.length === 1) return img;
+
+  const sources = SOURCE_FORMATS.filter(
+    (format) => format !== fallbackFormat && formats.includes(format)
+  ).map((format) => {
+    const group = sortByWidth(files.filter((file) => file.format === format));
+    return `  <source type="${FORMAT_INFO[format].mimeType}" srcset="${escapeAttribute(getSrcset(group))}" sizes="100vw">`;
+  });
+
+  return ['<picture>', ...sources, `  ${img}`, '</picture>'].join('\n');
+}
+
+// Smallest first, one file per width
+function sortByWidth(files: ExportResult[]): ExportResult[] {
+  const byWidth = new Map<number, ExportResult>();
+  for (const file of files) {
+    if (!byWidth.has(file.width)) byWidth.set(file.width, file);
+  }
+  return [...byWidth.values()].sort((a, b) => a.width - b.width);
+}
+
+function getSrcset(files: ExportResult[]): string {
+  return files.map((file) => `${toUrl(file.filename)} ${file.width}w`).join(', ');
+}
+
+// srcset splits on whitespace and commas, so those must be escaped in the URL
+function toUrl(path: string): string {
+  return encodeURI(path).replace(/,/g, '%2C');
+}
+
+function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+function escapeComment(value: string): string {
+  return value.replace(/--/g, '- -');
+}
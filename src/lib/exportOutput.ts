@@ -0,0 +1,34 @@
+import type { ExportSettings } from '@/types/image';
+import { openFolderOutput, supportsFolderExport } from './folderOutput';
+import { openZipOutput } from './zipOutput';
+
+/**
+ * Where an export writes its files: a ZIP or a folder on disk
+ */
+export interface ExportOutput {
+  /** Resolves with the path the file was written to, or null if it was skipped */
+  addFile(path: string, data: Blob, date?: Date): Promise<string | null>;
+  finish(): Promise<void>;
+  /** Stop writing; a partly written ZIP on disk is discarded */
+  abort(): Promise<void>;
+}
+
+/**
+ * Open the output the settings ask for, falling back to a ZIP when the
+ * browser can't write to folders
+ * Pickers need a user gesture, so call this before any long-running work.
+ * Rejects with an AbortError when the picker is dismissed.
+ */
+export function openExportOutput(settings: ExportSettings, zipFilename: string): Promise<ExportOutput> {
+  if (settings.destination === 'folder' && supportsFolderExport()) {
+    return openFolderOutput(settings.existingFilePolicy);
+  }
+  return openZipOutput(zipFilename, settings.zipPartSizeMB);
+}
+
+/**
+ * Whether the export goes to a folder in this browser
+ */
+export function exportsToFolder(settings: ExportSettings): boolean {
+  return settings.destination === 'folder' && supportsFolderExport();
+}
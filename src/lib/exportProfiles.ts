@@ -0,0 +1,198 @@
+import type { CropState, ExportProfile, ExportSettings, ImageFile } from '@/types/image';
+import { applyFramingToImage, frameAroundFocalPoint } from './cropMath';
+
+/**
+ * One pass over the batch: the settings to export with and, for profiles,
+ * the ZIP subfolder to put the files in
+ */
+export interface ExportJob {
+  profile: ExportProfile | null;
+  folder: string | null;
+  settings: ExportSettings;
+}
+
+// Ready-made profile sets for common responsive outputs
+export const PROFILE_PRESETS: Array<{ label: string; profiles: Array<Omit<ExportProfile, 'id'>> }> = [
+  {
+    label: 'Responsive widths (400–2400)',
+    profiles: [400, 800, 1600, 2400].map((width): Omit<ExportProfile, 'id'> => ({
+      name: `${width}w`,
+      sizeMode: 'width',
+      targetWidth: width,
+      targetHeight: width,
+      edgeSize: width,
+      scalePercent: 100,
+      format: 'jpeg',
+      quality: 85,
+      filenameTemplate: '{name}-{width}w',
+    })),
+  },
+  {
+    label: 'Square thumb + 16:9 hero',
+    profiles: [
+      {
+        name: 'thumb',
+        sizeMode: 'exact',
+        targetWidth: 400,
+        targetHeight: 400,
+        edgeSize: 400,
+        scalePercent: 100,
+        format: 'jpeg',
+        quality: 80,
+        filenameTemplate: '{name}-thumb',
+      },
+      {
+        name: 'hero',
+        sizeMode: 'exact',
+        targetWidth: 1920,
+        targetHeight: 1080,
+        edgeSize: 1920,
+        scalePercent: 100,
+        format: 'jpeg',
+        quality: 85,
+        filenameTemplate: '{name}-hero',
+      },
+    ],
+  },
+];
+
+export function generateProfileId(): string {
+  return `profile_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * New profile seeded from the current output settings
+ */
+export function createProfile(settings: ExportSettings, index: number): ExportProfile {
+  return {
+    id: generateProfileId(),
+    name: `size-${index + 1}`,
+    sizeMode: settings.sizeMode,
+    targetWidth: settings.targetWidth,
+    targetHeight: settings.targetHeight,
+    edgeSize: settings.edgeSize,
+    scalePercent: settings.scalePercent,
+    format: settings.format,
+    quality: settings.quality,
+    filenameTemplate: settings.filenameTemplate,
+  };
+}
+
+/**
+ * Full export settings for one profile: the profile's own fields over the shared ones
+ */
+export function resolveProfileSettings(
+  settings: ExportSettings,
+  profile: ExportProfile
+): ExportSettings {
+  return {
+    ...settings,
+    sizeMode: profile.sizeMode,
+    targetWidth: profile.targetWidth,
+    targetHeight: profile.targetHeight,
+    edgeSize: profile.edgeSize,
+    scalePercent: profile.scalePercent,
+    format: profile.format,
+    quality: profile.quality,
+    filenameTemplate: profile.filenameTemplate,
+    profiles: [],
+  };
+}
+
+/**
+ * The passes an export makes: one per profile, or a single pass with the plain settings
+ * Folder names are made safe and unique.
+ */
+export function getExportJobs(settings: ExportSettings): ExportJob[] {
+  if (settings.profiles.length === 0) {
+    return [{ profile: null, folder: null, settings }];
+  }
+
+  const usedFolders = new Set<string>();
+  return settings.profiles.map((profile, index) => {
+    const base = profile.name.replace(/[<>:"/\\|?*]/g, '_').trim() || `profile-${index + 1}`;
+    let folder = base;
+    for (let n = 2; usedFolders.has(folder.toLowerCase()); n++) {
+      folder = `${base}-${n}`;
+    }
+    usedFolders.add(folder.toLowerCase());
+
+    return { profile, folder, settings: resolveProfileSettings(settings, profile) };
+  });
+}
+
+// Crop editor tab for the main output size
+export const MAIN_CROP_VARIANT = 'main';
+
+export interface CropVariant {
+  id: string; // MAIN_CROP_VARIANT or a profile id
+  label: string;
+  profile: ExportProfile | null;
+  settings: ExportSettings;
+}
+
+/**
+ * Whether a profile crops to a different shape than the main output, and so
+ * gets a crop of its own per image
+ */
+export function profileNeedsOwnCrop(settings: ExportSettings, profile: ExportProfile): boolean {
+  if (settings.cropMode === 'free' || profile.sizeMode !== 'exact') return false;
+  const mainAspect = settings.targetWidth / settings.targetHeight;
+  return Math.abs(profile.targetWidth / profile.targetHeight - mainAspect) >= 0.001;
+}
+
+/**
+ * The crops an image has: the main one plus one per profile with its own aspect
+ */
+export function getCropVariants(settings: ExportSettings): CropVariant[] {
+  const variants: CropVariant[] = [
+    {
+      id: MAIN_CROP_VARIANT,
+      label: `Main (${settings.targetWidth} × ${settings.targetHeight})`,
+      profile: null,
+      settings: { ...settings, profiles: [] },
+    },
+  ];
+
+  for (const profile of settings.profiles) {
+    if (!profileNeedsOwnCrop(settings, profile)) continue;
+    variants.push({
+      id: profile.id,
+      label: `${profile.name} (${profile.targetWidth} × ${profile.targetHeight})`,
+      profile,
+      settings: resolveProfileSettings(settings, profile),
+    });
+  }
+  return variants;
+}
+
+/**
+ * Crop for an image under a profile's settings
+ *
+ * A profile with its own aspect uses the image's crop for that profile when
+ * it has one. Otherwise, a fixed size with a different aspect keeps the
+ * image's framing (center, zoom, rotation) and reshapes the crop to the
+ * profile's aspect, centered on the image's focal point if it has one.
+ */
+export function getProfileCropState(
+  image: ImageFile,
+  settings: ExportSettings,
+  profileId?: string
+): CropState {
+  if (settings.sizeMode !== 'exact' || settings.cropMode === 'free') {
+    return image.cropState;
+  }
+
+  const aspect = settings.targetWidth / settings.targetHeight;
+  const base = (profileId && image.profileCropStates?.[profileId]) || image.cropState;
+  if (Math.abs(aspect - base.aspect) < 0.001) {
+    return base;
+  }
+  if (image.focalPoint) {
+    return frameAroundFocalPoint(base, image.focalPoint, image.originalWidth, image.originalHeight, aspect);
+  }
+  return {
+    ...applyFramingToImage(base, image.originalWidth, image.originalHeight, aspect),
+    sourceHash: base.sourceHash,
+  };
+}
@@ -0,0 +1,31 @@
+import type { CropRect, ExportSettings } from '@/types/image';
+import { processImage, type ProcessedImage } from './imageUtils';
+
+export interface ExportWorkerRequest {
+  taskId: number;
+  bitmap: ImageBitmap; // transferred; closed once rendered
+  cropRect: CropRect;
+  settings: ExportSettings;
+}
+
+export type ExportWorkerResponse =
+  | { taskId: number; result: ProcessedImage }
+  | { taskId: number; error: string };
+
+/**
+ * Export worker: crops, resizes, sharpens and encodes one image at a time on an OffscreenCanvas
+ */
+self.onmessage = async (event: MessageEvent<ExportWorkerRequest>) => {
+  const { taskId, bitmap, cropRect, settings } = event.data;
+  let response: ExportWorkerResponse;
+
+  try {
+    response = { taskId, result: await processImage(bitmap, cropRect, settings) };
+  } catch (error) {
+    response = { taskId, error: error instanceof Error ? error.message : String(error) };
+  } finally {
+    bitmap.close();
+  }
+
+  self.postMessage(response);
+};
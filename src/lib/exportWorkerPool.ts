@@ -0,0 +1,185 @@
+import type { CropRect, ExportSettings } from '@/types/image';
+import { processImage, type ProcessedImage } from './imageUtils';
+import type { ExportWorkerRequest, ExportWorkerResponse } from './exportWorker';
+
+// Encoders are memory hungry, so don't spin up a worker per core on big machines
+const MAX_WORKERS = 4;
+
+interface PoolTask {
+  bitmap: ImageBitmap;
+  cropRect: CropRect;
+  settings: ExportSettings;
+  onStart?: () => void;
+  resolve: (result: ProcessedImage) => void;
+  reject: (error: unknown) => void;
+}
+
+export interface ExportWorkerPool {
+  /** How many images render at once */
+  readonly size: number;
+  /**
+   * Render and encode one image. The bitmap is copied when a worker picks the
+   * task up, so the caller's bitmap stays usable.
+   */
+  process(
+    bitmap: ImageBitmap,
+    cropRect: CropRect,
+    settings: ExportSettings,
+    onStart?: () => void
+  ): Promise<ProcessedImage>;
+  /** Stop all workers; queued and running tasks reject with an AbortError */
+  terminate(): void;
+}
+
+/**
+ * Whether export can run off the main thread
+ */
+export function supportsExportWorkers(): boolean {
+  return typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+/**
+ * Pool of export workers. Without worker or OffscreenCanvas support, tasks
+ * run one at a time on the main thread instead.
+ */
+export function createExportWorkerPool(): ExportWorkerPool {
+  const useWorkers = supportsExportWorkers();
+  const size = useWorkers
+    ? Math.max(1, Math.min(MAX_WORKERS, (navigator.hardwareConcurrency || 2) - 1))
+    : 1;
+
+  const queue: PoolTask[] = [];
+  const running = new Map<number, PoolTask>();
+  const workers = new Map<Worker, number | null>(); // worker -> task it's running
+  let nextTaskId = 0;
+  let terminated = false;
+
+  const settle = (taskId: number, outcome: { result: ProcessedImage } | { error: unknown }) => {
+    const task = running.get(taskId);
+    if (!task) return;
+    running.delete(taskId);
+    if ('result' in outcome) {
+      task.resolve(outcome.result);
+    } else {
+      task.reject(outcome.error);
+    }
+  };
+
+  const spawnWorker = (): Worker => {
+    const worker = new Worker(new URL('./exportWorker.ts', import.meta.url), { type: 'module' });
+
+    worker.onmessage = (event: MessageEvent<ExportWorkerResponse>) => {
+      const response = event.data;
+      workers.set(worker, null);
+      settle(
+        response.taskId,
+        'error' in response ? { error: new Error(response.error) } : { result: response.result }
+      );
+      pump();
+    };
+
+    // A crashed worker fails its task and is replaced on the next pump
+    worker.onerror = (event) => {
+      const taskId = workers.get(worker);
+      worker.terminate();
+      workers.delete(worker);
+      if (taskId !== null && taskId !== undefined) {
+        settle(taskId, { error: new Error(event.message || 'Export worker failed') });
+      }
+      pump();
+    };
+
+    workers.set(worker, null);
+    return worker;
+  };
+
+  const runInWorker = (worker: Worker, taskId: number, task: PoolTask) => {
+    workers.set(worker, taskId);
+    createImageBitmap(task.bitmap)
+      .then((bitmap) => {
+        if (terminated) {
+          bitmap.close();
+          return;
+        }
+        const request: ExportWorkerRequest = {
+          taskId,
+          bitmap,
+          cropRect: task.cropRect,
+          settings: task.settings,
+        };
+        worker.postMessage(request, [bitmap]);
+      })
+      .catch((error) => {
+        workers.set(worker, null);
+        settle(taskId, { error });
+        pump();
+      });
+  };
+
+  const runOnMainThread = (taskId: number, task: PoolTask) => {
+    processImage(task.bitmap, task.cropRect, task.settings)
+      .then((result) => settle(taskId, { result }))
+      .catch((error) => settle(taskId, { error }))
+      .finally(pump);
+  };
+
+  const getIdleWorker = (): Worker | null => {
+    for (const [worker, taskId] of workers) {
+      if (taskId === null) return worker;
+    }
+    return workers.size < size ? spawnWorker() : null;
+  };
+
+  function pump() {
+    while (!terminated && queue.length > 0) {
+      const worker = useWorkers ? getIdleWorker() : null;
+      if (useWorkers ? !worker : running.size > 0) return;
+
+      const task = queue.shift();
+      const taskId = nextTaskId++;
+      running.set(taskId, task);
+      task.onStart?.();
+
+      if (worker) {
+        runInWorker(worker, taskId, task);
+      } else {
+        runOnMainThread(taskId, task);
+      }
+    }
+  }
+
+  return {
+    size,
+
+    process(bitmap, cropRect, settings, onStart) {
+      if (terminated) {
+        return Promise.reject(new DOMException('Export cancelled', 'AbortError'));
+      }
+      return new Promise((resolve, reject) => {
+        queue.push({ bitmap, cropRect, settings, onStart, resolve, reject });
+        pump();
+      });
+    },
+
+    terminate() {
+      if (terminated) return;
+      terminated = true;
+
+      for (const worker of workers.keys()) {
+        worker.terminate();
+      }
+      workers.clear();
+
+      const cancelled = new DOMException('Export cancelled', 'AbortError');
+      for (const task of [...queue, ...running.values()]) {
+        task.reject(cancelled);
+      }
+      queue.length = 0;
+      running.clear();
+    },
+  };
+}
@@ -0,0 +1,117 @@
+/**
+ * Values available to filename template tokens
+ */
+export interface FilenameContext {
+  name: string; // original filename, without extension
+  index: number; // already offset by the start index
+  width: number;
+  height: number;
+  date: Date;
+  extension: string;
+  hash: string; // short content hash of the exported file
+}
+
+export const FILENAME_TOKENS: Array<{ token: string; description: string }> = [
+  { token: '{name}', description: 'Original filename without extension' },
+  { token: '{index}', description: 'Position in the batch; {index:03} pads to 3 digits' },
+  { token: '{width}', description: 'Output width in px' },
+  { token: '{height}', description: 'Output height in px' },
+  { token: '{date:YYYYMMDD}', description: 'Export date (YYYY MM DD HH mm ss)' },
+  { token: '{ext}', description: 'File extension; added at the end if not used' },
+  { token: '{hash}', description: 'First 8 characters of the file SHA-256' },
+];
+
+export const DEFAULT_FILENAME_TEMPLATE = 'image-{index}';
+
+const TOKEN_PATTERN = /\{(\w+)(?::([^}]*))?\}/g;
+
+// Characters that aren't allowed in filenames on common file systems
+// eslint-disable-next-line no-control-regex
+const UNSAFE_CHARS = /[<>:"/\\|?*\x00-\x1f]/g;
+
+/**
+ * Expand a filename template such as "{name}_{width}w.{ext}"
+ * Unknown tokens are left as written. ".{ext}" is appended when the
+ * template doesn't place the extension itself.
+ */
+export function renderFilenameTemplate(template: string, context: FilenameContext): string {
+  let usesExtension = false;
+
+  const rendered = template.replace(TOKEN_PATTERN, (match, token: string, format?: string) => {
+    switch (token) {
+      case 'name':
+        return context.name;
+      case 'index':
+        return formatIndex(context.index, format);
+      case 'width':
+        return String(context.width);
+      case 'height':
+        return String(context.height);
+      case 'date':
+        return formatDate(context.date, format || 'YYYYMMDD');
+      case 'ext':
+        usesExtension = true;
+        return context.extension;
+      case 'hash':
+        return context.hash;
+      default:
+        return match;
+    }
+  });
+
+  const filename = rendered.replace(UNSAFE_CHARS, '_').trim() || 'image';
+  return usesExtension ? filename : `${filename}.${context.extension}`;
+}
+
+// "03" pads to 3 digits; any other format is ignored
+function formatIndex(index: number, format?: string): string {
+  const width = format && /^\d+$/.test(format) ? parseInt(format, 10) : 0;
+  return String(index).padStart(width, '0');
+}
+
+function formatDate(date: Date, format: string): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return format
+    .replace(/YYYY/g, String(date.getFullYear()))
+    .replace(/MM/g, pad(date.getMonth() + 1))
+    .replace(/DD/g, pad(date.getDate()))
+    .replace(/HH/g, pad(date.getHours()))
+    .replace(/mm/g, pad(date.getMinutes()))
+    .replace(/ss/g, pad(date.getSeconds()));
+}
+
+/**
+ * Original filename without its extension
+ */
+export function getBaseName(filename: string): string {
+  const dot = filename.lastIndexOf('.');
+  return dot > 0 ? filename.slice(0, dot) : filename;
+}
+
+/**
+ * Make filenames unique within one export by adding "-2", "-3", ... before
+ * the extension. Comparison ignores case, like most desktop file systems.
+ */
+export function createFilenameDeduplicator(): (filename: string) => string {
+  const used = new Set<string>();
+
+  return (filename: string) => {
+    const dot = filename.lastIndexOf('.');
+    const base = dot > 0 ? filename.slice(0, dot) : filename;
+    const extension = dot > 0 ? filename.slice(dot) : '';
+
+    let candidate = filename;
+    for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+      candidate = `${base}-${n}${extension}`;
+    }
+    used.add(candidate.toLowerCase());
+    return candidate;
+  };
+}
+
+/**
+ * Whether the template needs the exported file's content hash
+ */
+export function templateUsesHash(template: string): boolean {
+  return /\{hash(?::[^}]*)?\}/.test(template);
+}
@@ -0,0 +1,81 @@
+import type { ExistingFilePolicy } from '@/types/image';
+import type { ExportOutput } from './exportOutput';
+
+export function supportsFolderExport(): boolean {
+  return typeof window !== 'undefined' && typeof window.showDirectoryPicker === 'function';
+}
+
+/**
+ * Let the user pick a directory and write each file into it, creating
+ * subfolders as needed. Files already there are replaced, left alone or
+ * kept by writing under a "-2", "-3", ... name, depending on the policy.
+ */
+export async function openFolderOutput(policy: ExistingFilePolicy): Promise<ExportOutput> {
+  const root = await window.showDirectoryPicker({ id: 'mybirme-export', mode: 'readwrite' });
+  const folders = new Map<string, Promise<FileSystemDirectoryHandle>>();
+
+  // Subfolder handles are cached; concurrent lookups share the same promise
+  const getFolder = (path: string): Promise<FileSystemDirectoryHandle> => {
+    if (!path) return Promise.resolve(root);
+
+    let folder = folders.get(path);
+    if (!folder) {
+      const slash = path.lastIndexOf('/');
+      const parent = slash >= 0 ? path.slice(0, slash) : '';
+      const name = path.slice(slash + 1);
+      folder = getFolder(parent).then((handle) => handle.getDirectoryHandle(name, { create: true }));
+      folders.set(path, folder);
+    }
+    return folder;
+  };
+
+  return {
+    async addFile(path, data) {
+      const slash = path.lastIndexOf('/');
+      const folderPath = slash >= 0 ? path.slice(0, slash) : '';
+      const folder = await getFolder(folderPath);
+
+      let name = path.slice(slash + 1);
+      if (await fileExists(folder, name)) {
+        if (policy === 'skip') return null;
+        if (policy === 'rename') name = await getFreeName(folder, name);
+      }
+
+      const handle = await folder.getFileHandle(name, { create: true });
+      const stream = await handle.createWritable();
+      try {
+        await stream.write(data);
+        await stream.close();
+      } catch (error) {
+        await stream.abort().catch(() => undefined);
+        throw error;
+      }
+      return folderPath ? `${folderPath}/${name}` : name;
+    },
+
+    // Every file is complete once written; files written before a cancel stay
+    async finish() {},
+    async abort() {},
+  };
+}
+
+async function fileExists(folder: FileSystemDirectoryHandle, name: string): Promise<boolean> {
+  try {
+    await folder.getFileHandle(name);
+    return true;
+  } catch (error) {
+    // TypeMismatchError: a folder has that name, which blocks the file too
+    return !(error instanceof DOMException && error.name === 'NotFoundError');
+  }
+}
+
+async function getFreeName(folder: FileSystemDirectoryHandle, name: string): Promise<string> {
+  const dot = name.lastIndexOf('.');
+  const base = dot > 0 ? name.slice(0, dot) : name;
+  const extension = dot > 0 ? name.slice(dot) : '';
+
+  for (let n = 2; ; n++) {
+    const candidate = `${base}-${n}${extension}`;
+    if (!(await fileExists(folder, candidate))) return candidate;
+  }
+}
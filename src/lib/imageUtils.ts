@@ -1,4 +1,10 @@
-import type { CropRect, ExportSettings } from '@/types/image';
+import type { CropRect, ExportSettings, ImageFile } from '@/types/image';
+import { getOutputLayout, type OutputLayout } from './outputLayout';
+import { resamplePixels } from './resample';
+import { unsharpMask } from './sharpen';
+import { canvasToBlob, encodeImage, usesOptimizedEncoder, FORMAT_INFO } from './encoders';
+import { createCanvas, getContext2d, type RenderCanvas, type RenderContext } from './canvas';
+import { getBaseName, renderFilenameTemplate } from './filenameTemplate';
 
 /**
  * Generate a unique ID for an image
@@ -9,14 +15,33 @@ export function generateImageId(): string {
 
 /**
  * Generate a hash from file content for persistence
+ * The whole file is hashed: photos from one camera can share their first
+ * kilobytes of headers, and saved crops and analyses must not mix them up.
  */
 export async function generateFileHash(file: File): Promise<string> {
-  const buffer = await file.slice(0, 1024 * 10).arrayBuffer(); // First 10KB
+  const buffer = await file.arrayBuffer();
   const hashBuffer = await crypto.subtle.digest('SHA-256', buffer);
   const hashArray = Array.from(new Uint8Array(hashBuffer));
   return hashArray.map(b => b.toString(16).padStart(2, '0')).join('').substring(0, 16);
 }
 
+/**
+ * Short SHA-256 of a whole blob, e.g. for content-addressed filenames
+ */
+export async function hashBlob(blob: Blob): Promise<string> {
+  const hashBuffer = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  const hashArray = Array.from(new Uint8Array(hashBuffer));
+  return hashArray.map(b => b.toString(16).padStart(2, '0')).join('').substring(0, 8);
+}
+
+/**
+ * Folder an image was imported from, e.g. "trip/day1"; empty for loose files
+ */
+export function getImageFolder(image: Pick<ImageFile, 'relativePath'>): string {
+  const slash = image.relativePath.lastIndexOf('/');
+  return slash > 0 ? image.relativePath.slice(0, slash) : '';
+}
+
 /**
  * Load an image file and normalize EXIF orientation
  */
@@ -83,6 +108,55 @@ export async function generateThumbnail(
   return canvas.toDataURL('image/jpeg', 0.8);
 }
 
+/**
+ * Crop, resize and sharpen an image onto a canvas according to settings
+ */
+export function renderImage(
+  bitmap: ImageBitmap,
+  cropRect: CropRect,
+  settings: ExportSettings
+): RenderCanvas {
+  const layout = getOutputLayout(cropRect.width, cropRect.height, settings);
+
+  const canvas = createCanvas(layout.canvasWidth, layout.canvasHeight);
+  const ctx = getContext2d(canvas);
+
+  const coversCanvas =
+    layout.drawX <= 0 &&
+    layout.drawY <= 0 &&
+    layout.drawX + layout.drawWidth >= layout.canvasWidth &&
+    layout.drawY + layout.drawHeight >= layout.canvasHeight;
+  if (settings.resizeMode !== 'cover' || !coversCanvas) {
+    paintPadBackground(ctx, bitmap, cropRect, layout, settings);
+  }
+
+  if (settings.resampleFilter === 'browser') {
+    drawSourceRegion(ctx, bitmap, cropRect, layout.drawX, layout.drawY, layout.drawWidth, layout.drawHeight);
+  } else {
+    drawResampled(ctx, bitmap, cropRect, layout, settings);
+  }
+
+  if (settings.sharpen && settings.sharpenAmount > 0) {
+    sharpenRegion(ctx, layout, settings);
+  }
+
+  return canvas;
+}
+
+export interface ProcessedImage {
+  blob: Blob;
+  width: number;
+  height: number;
+  quality: number | null; // null for lossless formats
+  overSizeLimit: boolean;
+  browserBytes: number | null; // for comparison, when the optimized encoder was used
+}
+
+export type EncodedImage = Omit<ProcessedImage, 'width' | 'height'>;
+
+// Lowest quality tried when searching for a size that fits
+const MIN_QUALITY = 5;
+
 /**
  * Crop and resize an image according to settings
  */
@@ -90,56 +164,236 @@ export async function processImage(
   bitmap: ImageBitmap,
   cropRect: CropRect,
   settings: ExportSettings
-): Promise<Blob> {
-  const canvas = document.createElement('canvas');
-  canvas.width = settings.targetWidth;
-  canvas.height = settings.targetHeight;
+): Promise<ProcessedImage> {
+  const canvas = renderImage(bitmap, cropRect, settings);
+  const encoded = await encodeCanvas(canvas, settings);
+  return { ...encoded, width: canvas.width, height: canvas.height };
+}
 
-  const ctx = canvas.getContext('2d');
-  if (!ctx) throw new Error('Failed to get canvas context');
+/**
+ * Encode a rendered canvas. With the optimized encoder, the browser encoder's
+ * size at the same quality is measured too so the savings can be shown.
+ */
+export async function encodeCanvas(
+  canvas: RenderCanvas,
+  settings: ExportSettings
+): Promise<EncodedImage> {
+  const result = await encodeWithSizeLimit(canvas, settings);
+  if (!usesOptimizedEncoder(settings)) return result;
+
+  const { mimeType } = FORMAT_INFO[settings.format];
+  const browserBlob = await canvasToBlob(canvas, mimeType, (result.quality ?? 100) / 100);
+  return { ...result, browserBytes: browserBlob.size };
+}
+
+/**
+ * With a file size limit, binary search the quality for the highest value
+ * (up to settings.quality) whose output fits
+ */
+async function encodeWithSizeLimit(
+  canvas: RenderCanvas,
+  settings: ExportSettings
+): Promise<EncodedImage> {
+  const { lossy } = FORMAT_INFO[settings.format];
+  const maxBytes = settings.maxFileSizeKB * 1024;
+
+  const blob = await encodeImage(canvas, settings, settings.quality);
+  if (!settings.limitFileSize || blob.size <= maxBytes) {
+    return { blob, quality: lossy ? settings.quality : null, overSizeLimit: false, browserBytes: null };
+  }
+  if (!lossy) {
+    return { blob, quality: null, overSizeLimit: true, browserBytes: null };
+  }
+
+  let low = MIN_QUALITY;
+  let high = settings.quality - 1;
+  let best: EncodedImage | null = null;
+  // Every miss lowers the bound, so the last miss is the lowest quality tried
+  let lowest: EncodedImage = { blob, quality: settings.quality, overSizeLimit: true, browserBytes: null };
+  while (low <= high) {
+    const quality = Math.floor((low + high) / 2);
+    const candidate = await encodeImage(canvas, settings, quality);
+    if (candidate.size <= maxBytes) {
+      best = { blob: candidate, quality, overSizeLimit: false, browserBytes: null };
+      low = quality + 1;
+    } else {
+      lowest = { blob: candidate, quality, overSizeLimit: true, browserBytes: null };
+      high = quality - 1;
+    }
+  }
+
+  return best ?? lowest;
+}
+
+/**
+ * Draw the source region (with its rotation and flips) into a rect on the canvas
+ */
+function drawSourceRegion(
+  ctx: RenderContext,
+  bitmap: ImageBitmap,
+  cropRect: CropRect,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+): void {
+  const rotation = cropRect.rotation ?? 0;
+
+  if (rotation === 0 && !cropRect.flipX && !cropRect.flipY) {
+    // Draw the cropped region scaled to target size
+    ctx.drawImage(
+      bitmap,
+      cropRect.x,
+      cropRect.y,
+      cropRect.width,
+      cropRect.height,
+      x,
+      y,
+      width,
+      height
+    );
+    return;
+  }
 
-  // Draw the cropped region scaled to target size
+  // Map the crop center to the draw rect center, mirror, then rotate the source around it
+  ctx.save();
+  ctx.imageSmoothingQuality = 'high';
+  ctx.beginPath();
+  ctx.rect(x, y, width, height);
+  ctx.clip();
+  ctx.translate(x + width / 2, y + height / 2);
+  ctx.scale(
+    (width / cropRect.width) * (cropRect.flipX ? -1 : 1),
+    (height / cropRect.height) * (cropRect.flipY ? -1 : 1)
+  );
+  ctx.rotate((rotation * Math.PI) / 180);
   ctx.drawImage(
     bitmap,
-    cropRect.x,
-    cropRect.y,
-    cropRect.width,
-    cropRect.height,
-    0,
+    -(cropRect.x + cropRect.width / 2),
+    -(cropRect.y + cropRect.height / 2)
+  );
+  ctx.restore();
+}
+
+/**
+ * Render the source region at native size, resample it in TypeScript with the
+ * chosen filter, then place the result on the output canvas unscaled
+ */
+function drawResampled(
+  ctx: RenderContext,
+  bitmap: ImageBitmap,
+  cropRect: CropRect,
+  layout: OutputLayout,
+  settings: ExportSettings
+): void {
+  const source = createCanvas(cropRect.width, cropRect.height);
+  const sourceCtx = getContext2d(source);
+  drawSourceRegion(sourceCtx, bitmap, cropRect, 0, 0, cropRect.width, cropRect.height);
+
+  const resampled = resamplePixels(
+    sourceCtx.getImageData(0, 0, cropRect.width, cropRect.height),
+    layout.drawWidth,
+    layout.drawHeight,
+    settings.resampleFilter
+  );
+
+  // putImageData ignores compositing, so go through a canvas to keep the pad background
+  const output = createCanvas(resampled.width, resampled.height);
+  getContext2d(output).putImageData(
+    new ImageData(resampled.data, resampled.width, resampled.height),
     0,
-    settings.targetWidth,
-    settings.targetHeight
+    0
   );
+  ctx.drawImage(output, layout.drawX, layout.drawY);
+}
 
-  // Convert to blob
-  const mimeType = `image/${settings.format}`;
-  const quality = settings.quality / 100;
+/**
+ * Unsharp-mask the resized image, leaving any pad background untouched
+ */
+function sharpenRegion(
+  ctx: RenderContext,
+  layout: OutputLayout,
+  settings: ExportSettings
+): void {
+  const x = Math.max(0, layout.drawX);
+  const y = Math.max(0, layout.drawY);
+  const width = Math.min(layout.canvasWidth, layout.drawX + layout.drawWidth) - x;
+  const height = Math.min(layout.canvasHeight, layout.drawY + layout.drawHeight) - y;
+  if (width <= 0 || height <= 0) return;
 
-  return new Promise((resolve, reject) => {
-    canvas.toBlob(
-      (blob) => {
-        if (blob) {
-          resolve(blob);
-        } else {
-          reject(new Error('Failed to create blob'));
-        }
-      },
-      mimeType,
-      quality
+  const sharpened = unsharpMask(
+    ctx.getImageData(x, y, width, height),
+    settings.sharpenAmount,
+    settings.sharpenRadius,
+    settings.sharpenThreshold
+  );
+  ctx.putImageData(new ImageData(sharpened.data, width, height), x, y);
+}
+
+/**
+ * Fill the canvas behind a fitted image: a solid color, or a blurred,
+ * enlarged copy of the same region. Formats without alpha (JPEG, BMP) fall
+ * back to the pad color for 'transparent'.
+ */
+function paintPadBackground(
+  ctx: RenderContext,
+  bitmap: ImageBitmap,
+  cropRect: CropRect,
+  layout: OutputLayout,
+  settings: ExportSettings
+): void {
+  const { canvasWidth, canvasHeight } = layout;
+
+  if (settings.padBackground === 'blur') {
+    // Solid base so the soft blur edges don't fade to transparent or black
+    ctx.fillStyle = settings.padColor;
+    ctx.fillRect(0, 0, canvasWidth, canvasHeight);
+
+    const coverScale = Math.max(canvasWidth / cropRect.width, canvasHeight / cropRect.height);
+    const width = cropRect.width * coverScale;
+    const height = cropRect.height * coverScale;
+    const blurRadius = Math.max(4, Math.round(Math.max(canvasWidth, canvasHeight) / 40));
+
+    ctx.save();
+    ctx.filter = `blur(${blurRadius}px)`;
+    drawSourceRegion(
+      ctx,
+      bitmap,
+      cropRect,
+      (canvasWidth - width) / 2,
+      (canvasHeight - height) / 2,
+      width,
+      height
     );
-  });
+    ctx.restore();
+    return;
+  }
+
+  if (settings.padBackground === 'transparent' && FORMAT_INFO[settings.format].alpha) return;
+
+  ctx.fillStyle = settings.padColor;
+  ctx.fillRect(0, 0, canvasWidth, canvasHeight);
 }
 
 /**
- * Generate filename for export
+ * Generate filename for export from the filename template
  */
 export function generateExportFilename(
+  image: Pick<ImageFile, 'name'>,
   index: number,
-  settings: ExportSettings
+  settings: ExportSettings,
+  output: { width: number; height: number; hash?: string },
+  date: Date = new Date()
 ): string {
-  const actualIndex = settings.startIndex + index;
-  const extension = settings.format === 'jpeg' ? 'jpg' : settings.format;
-  return `${settings.prefix}${actualIndex}${settings.suffix}.${extension}`;
+  return renderFilenameTemplate(settings.filenameTemplate, {
+    name: getBaseName(image.name),
+    index: settings.startIndex + index,
+    width: output.width,
+    height: output.height,
+    date,
+    extension: FORMAT_INFO[settings.format].extension,
+    hash: output.hash ?? '',
+  });
 }
 
 /**
@@ -0,0 +1,228 @@
+import type { CropRect, CropState, ExportSettings } from '@/types/image';
+import { getCropRect, getRotatedBounds } from './cropMath';
+
+// Rounding of crop rects makes native-size output look like a tiny upscale
+export const UPSCALE_TOLERANCE = 1.01;
+
+export interface OutputLayout {
+  canvasWidth: number;
+  canvasHeight: number;
+  // Where the source region is drawn on the output canvas (may overflow it for 'cover')
+  drawX: number;
+  drawY: number;
+  drawWidth: number;
+  drawHeight: number;
+}
+
+/**
+ * Get the region of the source image that goes into the output
+ *
+ * Free crops, and crop-to-fill at an exact size, use the crop rectangle.
+ * Everything else uses the whole image (rotated and mirrored like the crop,
+ * so a rotated image becomes its bounding box with empty corners).
+ */
+export function getSourceRect(
+  imageWidth: number,
+  imageHeight: number,
+  cropState: CropState,
+  settings: ExportSettings
+): CropRect {
+  const usesCrop = settings.sizeMode === 'exact' && settings.resizeMode === 'cover';
+  if (settings.cropMode === 'free' || usesCrop) {
+    return getCropRect(imageWidth, imageHeight, cropState);
+  }
+
+  const rotation = cropState.rotation ?? 0;
+  const bounds = getRotatedBounds(imageWidth, imageHeight, rotation);
+  return {
+    x: Math.round((imageWidth - bounds.width) / 2),
+    y: Math.round((imageHeight - bounds.height) / 2),
+    width: Math.round(bounds.width),
+    height: Math.round(bounds.height),
+    rotation,
+    flipX: cropState.flipX,
+    flipY: cropState.flipY,
+  };
+}
+
+/**
+ * Scale factor for the sizing modes that keep the source aspect
+ */
+function getAspectKeepingScale(
+  sourceWidth: number,
+  sourceHeight: number,
+  settings: ExportSettings
+): number {
+  switch (settings.sizeMode) {
+    case 'width':
+      return settings.targetWidth / sourceWidth;
+    case 'height':
+      return settings.targetHeight / sourceHeight;
+    case 'longest':
+      return settings.edgeSize / Math.max(sourceWidth, sourceHeight);
+    case 'shortest':
+      return settings.edgeSize / Math.min(sourceWidth, sourceHeight);
+    case 'percent':
+      return settings.scalePercent / 100;
+    default:
+      return 1;
+  }
+}
+
+/**
+ * Work out the output canvas size and where the source region goes on it
+ *
+ * Sizing modes other than 'exact' scale the source as-is. At an exact size:
+ * - cover: fill the target box, trimming whatever overflows (not for free crops)
+ * - contain: scale to fit inside the target box; the canvas shrinks to match
+ * - pad: scale to fit and center on a canvas of exactly the target size
+ * - stretch: fill the target box, ignoring the source aspect
+ *
+ * When the source would be enlarged and upscaling is off, 'limit' shrinks the
+ * whole layout back to native resolution and 'pad' draws the source at native
+ * size in the middle of the unchanged canvas.
+ */
+export function getOutputLayout(
+  sourceWidth: number,
+  sourceHeight: number,
+  settings: ExportSettings
+): OutputLayout {
+  const layout = getScaledLayout(sourceWidth, sourceHeight, settings);
+  const upscale = getLayoutUpscaleFactor(layout, sourceWidth, sourceHeight);
+
+  if (upscale <= UPSCALE_TOLERANCE || settings.upscaleMode === 'allow') {
+    return layout;
+  }
+
+  if (settings.upscaleMode === 'pad') {
+    const drawWidth = Math.max(1, Math.round(layout.drawWidth / upscale));
+    const drawHeight = Math.max(1, Math.round(layout.drawHeight / upscale));
+    return {
+      ...layout,
+      drawX: Math.round(layout.drawX + (layout.drawWidth - drawWidth) / 2),
+      drawY: Math.round(layout.drawY + (layout.drawHeight - drawHeight) / 2),
+      drawWidth,
+      drawHeight,
+    };
+  }
+
+  return {
+    canvasWidth: Math.max(1, Math.round(layout.canvasWidth / upscale)),
+    canvasHeight: Math.max(1, Math.round(layout.canvasHeight / upscale)),
+    drawX: Math.round(layout.drawX / upscale),
+    drawY: Math.round(layout.drawY / upscale),
+    drawWidth: Math.max(1, Math.round(layout.drawWidth / upscale)),
+    drawHeight: Math.max(1, Math.round(layout.drawHeight / upscale)),
+  };
+}
+
+/**
+ * How much an image's source region gets enlarged at the current settings,
+ * before any upscale guard. Above 1 the output is softer than the source.
+ */
+export function getImageUpscaleFactor(
+  imageWidth: number,
+  imageHeight: number,
+  cropState: CropState,
+  settings: ExportSettings
+): number {
+  const source = getSourceRect(imageWidth, imageHeight, cropState, settings);
+  const layout = getScaledLayout(source.width, source.height, settings);
+  return getLayoutUpscaleFactor(layout, source.width, source.height);
+}
+
+function getLayoutUpscaleFactor(
+  layout: OutputLayout,
+  sourceWidth: number,
+  sourceHeight: number
+): number {
+  return Math.max(layout.drawWidth / sourceWidth, layout.drawHeight / sourceHeight);
+}
+
+/**
+ * Resize mode that actually applies: a free crop keeps its own shape, so
+ * crop-to-fill would trim it and it's fitted inside the target box instead
+ */
+function getEffectiveResizeMode(settings: ExportSettings): ExportSettings['resizeMode'] {
+  return settings.cropMode === 'free' && settings.resizeMode === 'cover' ? 'contain' : settings.resizeMode;
+}
+
+function getScaledLayout(
+  sourceWidth: number,
+  sourceHeight: number,
+  settings: ExportSettings
+): OutputLayout {
+  const { targetWidth, targetHeight } = settings;
+  const resizeMode = getEffectiveResizeMode(settings);
+
+  if (settings.sizeMode !== 'exact') {
+    const scale = getAspectKeepingScale(sourceWidth, sourceHeight, settings);
+    const width = Math.max(1, Math.round(sourceWidth * scale));
+    const height = Math.max(1, Math.round(sourceHeight * scale));
+    return {
+      canvasWidth: width,
+      canvasHeight: height,
+      drawX: 0,
+      drawY: 0,
+      drawWidth: width,
+      drawHeight: height,
+    };
+  }
+
+  if (resizeMode === 'stretch') {
+    return {
+      canvasWidth: targetWidth,
+      canvasHeight: targetHeight,
+      drawX: 0,
+      drawY: 0,
+      drawWidth: targetWidth,
+      drawHeight: targetHeight,
+    };
+  }
+
+  const scaleX = targetWidth / sourceWidth;
+  const scaleY = targetHeight / sourceHeight;
+  const scale = resizeMode === 'cover' ? Math.max(scaleX, scaleY) : Math.min(scaleX, scaleY);
+  const drawWidth = Math.max(1, Math.round(sourceWidth * scale));
+  const drawHeight = Math.max(1, Math.round(sourceHeight * scale));
+
+  if (resizeMode === 'contain') {
+    return {
+      canvasWidth: drawWidth,
+      canvasHeight: drawHeight,
+      drawX: 0,
+      drawY: 0,
+      drawWidth,
+      drawHeight,
+    };
+  }
+
+  return {
+    canvasWidth: targetWidth,
+    canvasHeight: targetHeight,
+    drawX: Math.round((targetWidth - drawWidth) / 2),
+    drawY: Math.round((targetHeight - drawHeight) / 2),
+    drawWidth,
+    drawHeight,
+  };
+}
+
+/**
+ * Human-readable summary of the output size, e.g. "1200 × 800px" or "Longest edge 2000px"
+ */
+export function describeOutputSize(settings: ExportSettings): string {
+  switch (settings.sizeMode) {
+    case 'width':
+      return `${settings.targetWidth}px wide`;
+    case 'height':
+      return `${settings.targetHeight}px high`;
+    case 'longest':
+      return `Longest edge ${settings.edgeSize}px`;
+    case 'shortest':
+      return `Shortest edge ${settings.edgeSize}px`;
+    case 'percent':
+      return `${settings.scalePercent}% of original`;
+    default:
+      return `${settings.targetWidth} × ${settings.targetHeight}px`;
+  }
+}
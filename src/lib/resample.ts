@@ -0,0 +1,233 @@
+import type { ResampleFilter } from '@/types/image';
+
+/**
+ * Plain RGBA pixels, compatible with ImageData
+ */
+export interface PixelBuffer {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+interface Kernel {
+  support: number;
+  weight: (x: number) => number;
+}
+
+const TRIANGLE: Kernel = {
+  support: 1,
+  weight: (x) => {
+    const ax = Math.abs(x);
+    return ax < 1 ? 1 - ax : 0;
+  },
+};
+
+// Keys cubic convolution with a = -0.5 (Catmull-Rom)
+const CUBIC: Kernel = {
+  support: 2,
+  weight: (x) => {
+    const a = -0.5;
+    const ax = Math.abs(x);
+    if (ax < 1) return (a + 2) * ax ** 3 - (a + 3) * ax ** 2 + 1;
+    if (ax < 2) return a * ax ** 3 - 5 * a * ax ** 2 + 8 * a * ax - 4 * a;
+    return 0;
+  },
+};
+
+const LANCZOS3: Kernel = {
+  support: 3,
+  weight: (x) => {
+    if (x === 0) return 1;
+    if (Math.abs(x) >= 3) return 0;
+    const px = Math.PI * x;
+    return (3 * Math.sin(px) * Math.sin(px / 3)) / (px * px);
+  },
+};
+
+/**
+ * Resize RGBA pixels with the given filter
+ *
+ * - bilinear: halve with a 2x2 box until within 2x of the target, then a tent filter
+ * - bicubic / lanczos3: a single separable pass with the kernel widened by the
+ *   reduction factor, so large reductions average every source pixel
+ *
+ * Filtering runs on premultiplied alpha so transparent pixels don't bleed color.
+ * 'browser' has no TypeScript implementation and is treated as bilinear here.
+ */
+export function resamplePixels(
+  source: PixelBuffer,
+  width: number,
+  height: number,
+  filter: ResampleFilter
+): PixelBuffer {
+  if (filter === 'bicubic') return resampleSeparable(source, width, height, CUBIC);
+  if (filter === 'lanczos3') return resampleSeparable(source, width, height, LANCZOS3);
+
+  let current = source;
+  while (current.width >= width * 2 || current.height >= height * 2) {
+    current = halve(
+      current,
+      current.width >= width * 2,
+      current.height >= height * 2
+    );
+  }
+  return resampleSeparable(current, width, height, TRIANGLE);
+}
+
+/**
+ * Halve one or both dimensions by averaging 2x2 (or 2x1) blocks
+ */
+function halve(source: PixelBuffer, halveX: boolean, halveY: boolean): PixelBuffer {
+  const stepX = halveX ? 2 : 1;
+  const stepY = halveY ? 2 : 1;
+  const width = Math.floor(source.width / stepX);
+  const height = Math.floor(source.height / stepY);
+  const data = new Uint8ClampedArray(width * height * 4);
+  const src = source.data;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let a = 0;
+      for (let dy = 0; dy < stepY; dy++) {
+        for (let dx = 0; dx < stepX; dx++) {
+          const i = ((y * stepY + dy) * source.width + x * stepX + dx) * 4;
+          const alpha = src[i + 3];
+          r += src[i] * alpha;
+          g += src[i + 1] * alpha;
+          b += src[i + 2] * alpha;
+          a += alpha;
+        }
+      }
+      const o = (y * width + x) * 4;
+      if (a > 0) {
+        data[o] = r / a;
+        data[o + 1] = g / a;
+        data[o + 2] = b / a;
+      }
+      data[o + 3] = a / (stepX * stepY);
+    }
+  }
+
+  return { data, width, height };
+}
+
+interface Contributions {
+  start: Int32Array;
+  count: Int32Array;
+  weights: Float32Array;
+  stride: number;
+}
+
+/**
+ * Precompute the source taps and normalized weights for every output pixel on one axis
+ */
+function computeContributions(srcSize: number, dstSize: number, kernel: Kernel): Contributions {
+  const scale = dstSize / srcSize;
+  const filterScale = Math.max(1, 1 / scale);
+  const radius = kernel.support * filterScale;
+  const stride = Math.ceil(radius) * 2 + 1;
+
+  const start = new Int32Array(dstSize);
+  const count = new Int32Array(dstSize);
+  const weights = new Float32Array(dstSize * stride);
+
+  for (let i = 0; i < dstSize; i++) {
+    const center = (i + 0.5) / scale;
+    const first = Math.max(0, Math.floor(center - radius));
+    const last = Math.min(srcSize - 1, Math.ceil(center + radius) - 1);
+    const taps = Math.min(stride, last - first + 1);
+
+    let total = 0;
+    for (let t = 0; t < taps; t++) {
+      const w = kernel.weight((first + t + 0.5 - center) / filterScale);
+      weights[i * stride + t] = w;
+      total += w;
+    }
+    if (total !== 0) {
+      for (let t = 0; t < taps; t++) {
+        weights[i * stride + t] /= total;
+      }
+    }
+
+    start[i] = first;
+    count[i] = taps;
+  }
+
+  return { start, count, weights, stride };
+}
+
+/**
+ * Two-pass (horizontal, then vertical) convolution resize
+ * The intermediate is only dstWidth wide, so big reductions stay cheap on memory.
+ */
+function resampleSeparable(
+  source: PixelBuffer,
+  width: number,
+  height: number,
+  kernel: Kernel
+): PixelBuffer {
+  const src = source.data;
+  const horizontal = computeContributions(source.width, width, kernel);
+  const vertical = computeContributions(source.height, height, kernel);
+
+  // Horizontal pass into premultiplied floats
+  const temp = new Float32Array(width * source.height * 4);
+  for (let y = 0; y < source.height; y++) {
+    const row = y * source.width;
+    for (let x = 0; x < width; x++) {
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let a = 0;
+      const first = horizontal.start[x];
+      const base = x * horizontal.stride;
+      for (let t = 0; t < horizontal.count[x]; t++) {
+        const w = horizontal.weights[base + t];
+        const i = (row + first + t) * 4;
+        const alpha = src[i + 3] * w;
+        r += src[i] * alpha;
+        g += src[i + 1] * alpha;
+        b += src[i + 2] * alpha;
+        a += alpha;
+      }
+      const o = (y * width + x) * 4;
+      temp[o] = r;
+      temp[o + 1] = g;
+      temp[o + 2] = b;
+      temp[o + 3] = a;
+    }
+  }
+
+  // Vertical pass, then back to straight alpha
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const first = vertical.start[y];
+    const base = y * vertical.stride;
+    for (let x = 0; x < width; x++) {
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let a = 0;
+      for (let t = 0; t < vertical.count[y]; t++) {
+        const w = vertical.weights[base + t];
+        const i = ((first + t) * width + x) * 4;
+        r += temp[i] * w;
+        g += temp[i + 1] * w;
+        b += temp[i + 2] * w;
+        a += temp[i + 3] * w;
+      }
+      const o = (y * width + x) * 4;
+      if (a > 0) {
+        data[o] = r / a;
+        data[o + 1] = g / a;
+        data[o + 2] = b / a;
+      }
+      data[o + 3] = a;
+    }
+  }
+
+  return { data, width, height };
+}
@@ -0,0 +1,74 @@
+import smartcrop, { type CropOptions } from 'smartcrop';
+import type { SaliencyMap, SmartCropOptions } from '@/types/image';
+import { createCanvas, getContext2d, type RenderCanvas } from './canvas';
+
+// smartcrop's defaults; skin and saturation only count where there's detail plus this much
+const SKIN_BIAS = 0.01;
+const SATURATION_BIAS = 0.2;
+
+/**
+ * Per-pixel importance as smartcrop weighs it, from its debug feature maps.
+ * Normally runs in a smart crop worker on the downscaled bitmap (see analyzeSaliency).
+ */
+export async function computeSaliencyMap(
+  image: HTMLImageElement | HTMLCanvasElement | ImageBitmap,
+  targetWidth: number,
+  targetHeight: number,
+  options: SmartCropOptions,
+  canvasFactory?: CropOptions['canvasFactory']
+): Promise<SaliencyMap> {
+  // By aspect, as in findSmartCrop, so minScale isn't overridden
+  const result = await smartcrop.crop(image, {
+    aspect: targetWidth / targetHeight,
+    ...options,
+    debug: true,
+    ...(canvasFactory && { canvasFactory }),
+  });
+  const features = result.debugOutput;
+  if (!features) throw new Error('smartcrop returned no feature maps');
+
+  const { width, height, data } = features;
+  const importance = new Float32Array(width * height);
+  let max = 0;
+
+  // The same per-pixel terms smartcrop sums when it scores a crop
+  for (let i = 0; i < importance.length; i++) {
+    const skin = data[i * 4] / 255;
+    const detail = data[i * 4 + 1] / 255;
+    const saturation = data[i * 4 + 2] / 255;
+    const value =
+      detail * options.detailWeight +
+      skin * (detail + SKIN_BIAS) * options.skinWeight +
+      saturation * (detail + SATURATION_BIAS) * options.saturationWeight;
+    importance[i] = value;
+    max = Math.max(max, value);
+  }
+
+  const map = new Uint8ClampedArray(importance.length);
+  if (max > 0) {
+    for (let i = 0; i < map.length; i++) {
+      map[i] = (importance[i] / max) * 255;
+    }
+  }
+  return { width, height, data: map };
+}
+
+/**
+ * Paint a saliency map as a heatmap: transparent where nothing counts,
+ * through red to opaque yellow at the most important pixels
+ */
+export function renderSaliencyHeatmap(map: SaliencyMap): RenderCanvas {
+  const canvas = createCanvas(map.width, map.height);
+  const ctx = getContext2d(canvas);
+  const imageData = ctx.createImageData(map.width, map.height);
+
+  for (let i = 0; i < map.data.length; i++) {
+    const value = map.data[i];
+    imageData.data[i * 4] = 255;
+    imageData.data[i * 4 + 1] = value;
+    imageData.data[i * 4 + 2] = 0;
+    imageData.data[i * 4 + 3] = Math.min(255, value * 1.5);
+  }
+  ctx.putImageData(imageData, 0, 0);
+  return canvas;
+}
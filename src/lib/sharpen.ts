@@ -0,0 +1,81 @@
+import type { PixelBuffer } from './resample';
+
+/**
+ * Gaussian weights for a blur of the given radius (used as sigma)
+ */
+function gaussianKernel(radius: number): Float32Array {
+  const sigma = Math.max(0.1, radius);
+  const half = Math.max(1, Math.ceil(sigma * 3));
+  const kernel = new Float32Array(half * 2 + 1);
+  let total = 0;
+  for (let i = -half; i <= half; i++) {
+    const w = Math.exp(-(i * i) / (2 * sigma * sigma));
+    kernel[i + half] = w;
+    total += w;
+  }
+  for (let i = 0; i < kernel.length; i++) kernel[i] /= total;
+  return kernel;
+}
+
+/**
+ * Unsharp mask: add back the difference between the image and a Gaussian blur
+ * of it. Differences below the threshold are left alone so flat areas and
+ * noise aren't amplified. Alpha is kept as-is.
+ *
+ * @param amount strength in percent (100 = add the full difference)
+ * @param radius blur radius in pixels
+ * @param threshold minimum difference (0-255) before a channel is sharpened
+ */
+export function unsharpMask(
+  source: PixelBuffer,
+  amount: number,
+  radius: number,
+  threshold: number
+): PixelBuffer {
+  const { width, height } = source;
+  const src = source.data;
+  const kernel = gaussianKernel(radius);
+  const half = (kernel.length - 1) / 2;
+
+  // Horizontal then vertical blur of the color channels, clamping at the edges
+  const horizontal = new Float32Array(width * height * 3);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      for (let k = -half; k <= half; k++) {
+        const sx = Math.min(width - 1, Math.max(0, x + k));
+        const i = (y * width + sx) * 4;
+        const w = kernel[k + half];
+        r += src[i] * w;
+        g += src[i + 1] * w;
+        b += src[i + 2] * w;
+      }
+      const o = (y * width + x) * 3;
+      horizontal[o] = r;
+      horizontal[o + 1] = g;
+      horizontal[o + 2] = b;
+    }
+  }
+
+  const data = new Uint8ClampedArray(src.length);
+  const strength = amount / 100;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      for (let c = 0; c < 3; c++) {
+        let blurred = 0;
+        for (let k = -half; k <= half; k++) {
+          const sy = Math.min(height - 1, Math.max(0, y + k));
+          blurred += horizontal[(sy * width + x) * 3 + c] * kernel[k + half];
+        }
+        const diff = src[i + c] - blurred;
+        data[i + c] = Math.abs(diff) < threshold ? src[i + c] : src[i + c] + diff * strength;
+      }
+      data[i + 3] = src[i + 3];
+    }
+  }
+
+  return { data, width, height };
+}
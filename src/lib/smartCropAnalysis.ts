@@ -0,0 +1,45 @@
+import type { SaliencyMap, SmartCropOptions, SmartCropResult } from '@/types/image';
+import { findSmartCrop } from './smartCropCandidates';
+import { computeSaliencyMap } from './saliency';
+
+export interface SmartCropWorkerRequest {
+  taskId: number;
+  bitmap: ImageBitmap; // downscaled copy, transferred; closed once analyzed
+  targetWidth: number;
+  targetHeight: number;
+  options: SmartCropOptions;
+  saliency?: boolean; // return the saliency map instead of crops
+}
+
+export type SmartCropWorkerResponse =
+  | { taskId: number; result: SmartCropResult }
+  | { taskId: number; saliency: SaliencyMap }
+  | { taskId: number; error: string };
+
+/**
+ * Smart crop worker: runs smartcrop on OffscreenCanvas, one image at a time
+ * The crops are in the coordinates of the (downscaled) bitmap it was given.
+ */
+self.onmessage = async (event: MessageEvent<SmartCropWorkerRequest>) => {
+  const { taskId, bitmap, targetWidth, targetHeight, options, saliency } = event.data;
+  const canvasFactory = (width: number, height: number) => new OffscreenCanvas(width, height);
+  let response: SmartCropWorkerResponse;
+  const transfer: Transferable[] = [];
+
+  try {
+    if (saliency) {
+      const map = await computeSaliencyMap(bitmap, targetWidth, targetHeight, options, canvasFactory);
+      response = { taskId, saliency: map };
+      transfer.push(map.data.buffer);
+    } else {
+      const result = await findSmartCrop(bitmap, targetWidth, targetHeight, options, canvasFactory);
+      response = { taskId, result };
+    }
+  } catch (error) {
+    response = { taskId, error: error instanceof Error ? error.message : String(error) };
+  } finally {
+    bitmap.close();
+  }
+
+  self.postMessage(response, { transfer });
+};
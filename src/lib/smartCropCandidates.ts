@@ -0,0 +1,62 @@
+import smartcrop, { type Crop, type CropOptions } from 'smartcrop';
+import type { SmartCropCandidate, SmartCropOptions, SmartCropResult } from '@/types/image';
+
+export const MAX_SMART_CROP_CANDIDATES = 5;
+
+// Candidates overlapping a better one by more than this are the same suggestion shifted a few pixels
+const MAX_CANDIDATE_OVERLAP = 0.5;
+
+/**
+ * Run smartcrop and keep its best few distinct crops, not only the top one
+ * Shared by the smart crop workers and the main-thread fallback.
+ *
+ * Only the target's aspect is passed on: given the full target size, smartcrop
+ * won't pick crops smaller than it (they'd need upscaling), and on a
+ * downscaled image that rules out everything below minScale 1.
+ */
+export async function findSmartCrop(
+  image: HTMLImageElement | HTMLCanvasElement | ImageBitmap,
+  targetWidth: number,
+  targetHeight: number,
+  options: SmartCropOptions,
+  canvasFactory?: CropOptions['canvasFactory']
+): Promise<SmartCropResult> {
+  const result = await smartcrop.crop(image, {
+    aspect: targetWidth / targetHeight,
+    ...options,
+    // debug mode is what returns every scored crop
+    debug: true,
+    ...(canvasFactory && { canvasFactory }),
+  });
+
+  const candidates = pickCandidates(result.crops ?? [result.topCrop]);
+  return { ...candidates[0], candidates };
+}
+
+function pickCandidates(crops: Crop[]): SmartCropCandidate[] {
+  const sorted = [...crops].sort((a, b) => b.score.total - a.score.total);
+  const picked: SmartCropCandidate[] = [];
+
+  for (const crop of sorted) {
+    if (picked.length >= MAX_SMART_CROP_CANDIDATES) break;
+    if (picked.some((other) => getOverlap(crop, other) > MAX_CANDIDATE_OVERLAP)) continue;
+    picked.push({
+      x: crop.x,
+      y: crop.y,
+      width: crop.width,
+      height: crop.height,
+      score: crop.score.total,
+    });
+  }
+  return picked;
+}
+
+// Intersection over union of two rectangles
+function getOverlap(a: Omit<SmartCropCandidate, 'score'>, b: Omit<SmartCropCandidate, 'score'>): number {
+  const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  if (width <= 0 || height <= 0) return 0;
+
+  const intersection = width * height;
+  return intersection / (a.width * a.height + b.width * b.height - intersection);
+}
@@ -1,8 +1,14 @@
-// Smart crop worker utilities
-// Note: Due to browser limitations with workers and modules,
-// we'll run smartcrop in the main thread but debounced
+// Smart crop analysis in a pool of Web Workers
+// Each image is downscaled on the main thread, transferred to a worker and
+// analyzed there on an OffscreenCanvas. Without worker support it falls
+// back to the main thread. The editor's saliency heatmap is computed the same way.
 
-import smartcrop from 'smartcrop';
+import type { SaliencyMap, SmartCropCandidate, SmartCropOptions, SmartCropResult } from '@/types/image';
+import { DEFAULT_SMART_CROP_OPTIONS } from '@/types/image';
+import { clearCachedAnalyses, getCachedAnalysis, putCachedAnalysis } from './analysisCache';
+import { findSmartCrop } from './smartCropCandidates';
+import { computeSaliencyMap } from './saliency';
+import type { SmartCropWorkerRequest, SmartCropWorkerResponse } from './smartCropAnalysis';
 
 export interface SmartCropJob {
   imageId: string;
@@ -13,74 +19,250 @@ export interface SmartCropJob {
 
 export interface SmartCropJobResult {
   imageId: string;
-  result: {
-    x: number;
-    y: number;
-    width: number;
-    height: number;
-    score: number;
-  } | null;
+  result: SmartCropResult | null;
   error?: string;
 }
 
-// Cache for smartcrop results
-const cropCache = new Map<string, SmartCropJobResult['result']>();
+type CropResult = SmartCropJobResult['result'];
 
-function getCacheKey(imageId: string, targetWidth: number, targetHeight: number): string {
-  return `${imageId}_${targetWidth}_${targetHeight}`;
+// smartcrop works on a ~256px prescaled copy anyway, so more pixels only cost transfer time
+const ANALYSIS_SIZE = 512;
+const MAX_WORKERS = 4;
+
+type AnalysisTask = {
+  imageId: string;
+  bitmap: ImageBitmap;
+  targetWidth: number;
+  targetHeight: number;
+  options: SmartCropOptions;
+} & (
+  | { kind: 'crop'; resolve: (result: CropResult) => void }
+  | { kind: 'saliency'; resolve: (map: SaliencyMap | null) => void }
+);
+
+// Results by source hash, then analysis key; backed by IndexedDB across sessions
+const cropCache = new Map<string, Map<string, CropResult>>();
+// Analyses in flight by image id, then analysis key, so repeated requests share one run
+const pendingResults = new Map<string, Map<string, Promise<CropResult>>>();
+
+const queue: AnalysisTask[] = [];
+const running = new Map<number, AnalysisTask>();
+const workers = new Map<Worker, number | null>(); // worker -> task it's running
+let nextTaskId = 0;
+
+// Target size and tuning: a result only applies to the same of both
+function getAnalysisKey(targetWidth: number, targetHeight: number, options: SmartCropOptions): string {
+  const { minScale, maxScale, ruleOfThirds, skinWeight, detailWeight, saturationWeight } = options;
+  return [
+    `${targetWidth}x${targetHeight}`,
+    minScale,
+    maxScale,
+    ruleOfThirds ? 1 : 0,
+    skinWeight,
+    detailWeight,
+    saturationWeight,
+  ].join(':');
+}
+
+function getNested<T>(map: Map<string, Map<string, T>>, key: string): Map<string, T> {
+  let inner = map.get(key);
+  if (!inner) {
+    inner = new Map();
+    map.set(key, inner);
+  }
+  return inner;
+}
+
+function supportsWorkers(): boolean {
+  return typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+}
+
+function getPoolSize(): number {
+  return Math.max(1, Math.min(MAX_WORKERS, (navigator.hardwareConcurrency || 2) - 1));
 }
 
 /**
  * Run smartcrop analysis on an image
+ * With a sourceHash the result is cached by image content, so the same file
+ * imported again (even after a reload) isn't analyzed twice.
+ * Resolves with null when the analysis fails or is cancelled.
  */
 export async function analyzeImage(
   imageElement: HTMLImageElement | HTMLCanvasElement | ImageBitmap,
   targetWidth: number,
   targetHeight: number,
-  imageId: string
-): Promise<SmartCropJobResult['result']> {
-  const cacheKey = getCacheKey(imageId, targetWidth, targetHeight);
-  
+  imageId: string,
+  sourceHash?: string,
+  options: SmartCropOptions = DEFAULT_SMART_CROP_OPTIONS
+): Promise<CropResult> {
+  const analysisKey = getAnalysisKey(targetWidth, targetHeight, options);
+
   // Check cache first
-  if (cropCache.has(cacheKey)) {
-    return cropCache.get(cacheKey)!;
+  const cached = sourceHash ? cropCache.get(sourceHash)?.get(analysisKey) : undefined;
+  if (cached) return cached;
+
+  const imagePending = getNested(pendingResults, imageId);
+  const pending = imagePending.get(analysisKey);
+  if (pending) return pending;
+
+  // A cancel removes the analysis from pendingResults
+  const isCurrent = () => pendingResults.get(imageId)?.get(analysisKey) === analysis;
+
+  const analysis: Promise<CropResult> = (async () => {
+    const stored = sourceHash ? await getCachedAnalysis(sourceHash, analysisKey) : null;
+    if (!isCurrent()) return null;
+
+    const result = stored ?? await (
+      imageElement instanceof ImageBitmap && supportsWorkers()
+        ? new Promise<CropResult>((resolve) => {
+            queue.push({ kind: 'crop', imageId, bitmap: imageElement, targetWidth, targetHeight, options, resolve });
+            pump();
+          })
+        : analyzeOnMainThread(imageElement, targetWidth, targetHeight, options)
+    );
+
+    if (result && sourceHash && isCurrent()) {
+      getNested(cropCache, sourceHash).set(analysisKey, result);
+      if (!stored) putCachedAnalysis(sourceHash, analysisKey, result);
+    }
+    if (isCurrent()) {
+      imagePending.delete(analysisKey);
+      if (imagePending.size === 0) pendingResults.delete(imageId);
+    }
+    return result;
+  })();
+
+  imagePending.set(analysisKey, analysis);
+  return analysis;
+}
+
+function spawnWorker(): Worker {
+  const worker = new Worker(new URL('./smartCropAnalysis.ts', import.meta.url), { type: 'module' });
+
+  worker.onmessage = (event: MessageEvent<SmartCropWorkerResponse>) => {
+    const response = event.data;
+    workers.set(worker, null);
+    const task = running.get(response.taskId);
+    running.delete(response.taskId);
+
+    if (task) {
+      if ('error' in response) {
+        console.error('Smartcrop analysis failed:', response.error);
+        task.resolve(null);
+      } else if (task.kind === 'saliency') {
+        task.resolve('saliency' in response ? response.saliency : null);
+      } else {
+        task.resolve('result' in response ? response.result : null);
+      }
+    }
+    pump();
+  };
+
+  worker.onerror = (event) => {
+    console.error('Smartcrop worker failed:', event.message);
+    replaceWorker(worker);
+  };
+
+  workers.set(worker, null);
+  return worker;
+}
+
+// Stop a worker and fail its task; a new worker is spawned when needed
+function replaceWorker(worker: Worker): void {
+  const taskId = workers.get(worker);
+  worker.terminate();
+  workers.delete(worker);
+
+  if (taskId !== null && taskId !== undefined) {
+    running.get(taskId)?.resolve(null);
+    running.delete(taskId);
+  }
+  pump();
+}
+
+function getIdleWorker(): Worker | null {
+  for (const [worker, taskId] of workers) {
+    if (taskId === null) return worker;
   }
+  return workers.size < getPoolSize() ? spawnWorker() : null;
+}
+
+function pump(): void {
+  while (queue.length > 0) {
+    const worker = getIdleWorker();
+    if (!worker) return;
+
+    const task = queue.shift();
+    const taskId = nextTaskId++;
+    running.set(taskId, task);
+    workers.set(worker, taskId);
+    startTask(worker, taskId, task);
+  }
+}
+
+async function startTask(worker: Worker, taskId: number, task: AnalysisTask): Promise<void> {
+  const { kind, bitmap, targetWidth, targetHeight, options } = task;
+  const scale = Math.min(1, ANALYSIS_SIZE / Math.max(bitmap.width, bitmap.height));
 
   try {
-    // For ImageBitmap, we need to draw to canvas first
-    let source: HTMLImageElement | HTMLCanvasElement;
-    
-    if (imageElement instanceof ImageBitmap) {
-      const canvas = document.createElement('canvas');
-      canvas.width = imageElement.width;
-      canvas.height = imageElement.height;
-      const ctx = canvas.getContext('2d');
-      if (!ctx) throw new Error('Failed to get canvas context');
-      ctx.drawImage(imageElement, 0, 0);
-      source = canvas;
-    } else {
-      source = imageElement;
+    const small = await createImageBitmap(bitmap, {
+      resizeWidth: Math.max(1, Math.round(bitmap.width * scale)),
+      resizeHeight: Math.max(1, Math.round(bitmap.height * scale)),
+      resizeQuality: 'medium',
+    });
+    // Cancelled while downscaling
+    if (!running.has(taskId)) {
+      small.close();
+      return;
     }
 
-    const result = await smartcrop.crop(source, {
-      width: targetWidth,
-      height: targetHeight,
-      minScale: 0.5,
-    });
+    // Map the crops back to full resolution when they arrive; a saliency
+    // map covers the whole image, so it's drawn stretched as it is
+    if (task.kind === 'crop') {
+      const resolve = task.resolve;
+      task.resolve = (result) => {
+        if (!result) return resolve(null);
+        const candidates = result.candidates.map((crop) => scaleCandidate(crop, 1 / scale));
+        resolve({ ...candidates[0], candidates });
+      };
+    }
 
-    const topCrop = result.topCrop;
-    const cropResult = {
-      x: topCrop.x,
-      y: topCrop.y,
-      width: topCrop.width,
-      height: topCrop.height,
-      score: (topCrop as { score?: number }).score ?? 1,
+    const request: SmartCropWorkerRequest = {
+      taskId,
+      bitmap: small,
+      targetWidth,
+      targetHeight,
+      options,
+      saliency: kind === 'saliency',
     };
+    worker.postMessage(request, [small]);
+  } catch (error) {
+    console.error('Smartcrop analysis failed:', error);
+    running.delete(taskId);
+    workers.set(worker, null);
+    task.resolve(null);
+    pump();
+  }
+}
 
-    // Cache the result
-    cropCache.set(cacheKey, cropResult);
+function scaleCandidate(crop: SmartCropCandidate, factor: number): SmartCropCandidate {
+  return {
+    x: Math.round(crop.x * factor),
+    y: Math.round(crop.y * factor),
+    width: Math.round(crop.width * factor),
+    height: Math.round(crop.height * factor),
+    score: crop.score,
+  };
+}
 
-    return cropResult;
+async function analyzeOnMainThread(
+  imageElement: HTMLImageElement | HTMLCanvasElement | ImageBitmap,
+  targetWidth: number,
+  targetHeight: number,
+  options: SmartCropOptions
+): Promise<CropResult> {
+  try {
+    return await findSmartCrop(imageElement, targetWidth, targetHeight, options);
   } catch (error) {
     console.error('Smartcrop analysis failed:', error);
     return null;
@@ -88,55 +270,106 @@ export async function analyzeImage(
 }
 
 /**
- * Clear the cache for a specific image or all images
+ * Compute the saliency map smartcrop would use for a crop of this size
+ * It's computed in the worker pool ahead of queued analyses, since someone is
+ * waiting to see it. Resolves with null when it fails or is cancelled.
  */
-export function clearSmartCropCache(imageId?: string): void {
-  if (imageId) {
-    // Clear all entries for this image
-    for (const key of cropCache.keys()) {
-      if (key.startsWith(imageId)) {
-        cropCache.delete(key);
-      }
+export async function analyzeSaliency(
+  imageElement: HTMLImageElement | HTMLCanvasElement | ImageBitmap,
+  targetWidth: number,
+  targetHeight: number,
+  imageId: string,
+  options: SmartCropOptions = DEFAULT_SMART_CROP_OPTIONS
+): Promise<SaliencyMap | null> {
+  if (imageElement instanceof ImageBitmap && supportsWorkers()) {
+    return new Promise((resolve) => {
+      queue.unshift({ kind: 'saliency', imageId, bitmap: imageElement, targetWidth, targetHeight, options, resolve });
+      pump();
+    });
+  }
+
+  try {
+    return await computeSaliencyMap(imageElement, targetWidth, targetHeight, options);
+  } catch (error) {
+    console.error('Saliency analysis failed:', error);
+    return null;
+  }
+}
+
+/**
+ * Cancel queued and running analyses for an image, or for all images
+ * Their promises resolve with null.
+ */
+export function cancelSmartCrop(imageId?: string): void {
+  const matches = (task: AnalysisTask) => !imageId || task.imageId === imageId;
+
+  for (let i = queue.length - 1; i >= 0; i--) {
+    if (matches(queue[i])) {
+      queue.splice(i, 1)[0].resolve(null);
     }
+  }
+
+  // smartcrop can't be interrupted, so stop the workers running these tasks
+  for (const [worker, taskId] of [...workers]) {
+    const task = taskId !== null ? running.get(taskId) : undefined;
+    if (task && matches(task)) {
+      replaceWorker(worker);
+    }
+  }
+
+  if (imageId) {
+    pendingResults.delete(imageId);
+  } else {
+    pendingResults.clear();
+  }
+}
+
+/**
+ * Forget analysis results, either those of the given images (by source hash)
+ * or all of them, in memory and in the persistent cache
+ */
+export async function clearSmartCropCache(sourceHashes?: string[]): Promise<void> {
+  if (sourceHashes) {
+    sourceHashes.forEach((hash) => cropCache.delete(hash));
   } else {
     cropCache.clear();
   }
+  await clearCachedAnalyses(sourceHashes);
 }
 
 /**
- * Process multiple images with concurrency limit
+ * Analyze several images, keeping up to `concurrency` of them in the worker pool at once
+ * onProgress gets each image's result as soon as it's ready.
  */
 export async function batchAnalyze(
   jobs: Array<{
     imageId: string;
+    sourceHash?: string;
     bitmap: ImageBitmap;
     targetWidth: number;
     targetHeight: number;
+    options?: SmartCropOptions;
   }>,
-  concurrency: number = 2,
-  onProgress?: (completed: number, total: number) => void
-): Promise<Map<string, SmartCropJobResult['result']>> {
-  const results = new Map<string, SmartCropJobResult['result']>();
+  concurrency: number = getPoolSize(),
+  onProgress?: (completed: number, total: number, job: SmartCropJobResult) => void
+): Promise<Map<string, CropResult>> {
+  const results = new Map<string, CropResult>();
   let completed = 0;
+  let next = 0;
 
-  // Process in batches
-  for (let i = 0; i < jobs.length; i += concurrency) {
-    const batch = jobs.slice(i, i + concurrency);
-    
-    await Promise.all(
-      batch.map(async (job) => {
-        const result = await analyzeImage(
-          job.bitmap,
-          job.targetWidth,
-          job.targetHeight,
-          job.imageId
-        );
-        results.set(job.imageId, result);
-        completed++;
-        onProgress?.(completed, jobs.length);
-      })
-    );
-  }
+  // Each runner takes the next job as soon as its previous one finishes
+  const runner = async () => {
+    while (next < jobs.length) {
+      const job = jobs[next++];
+      const result = await analyzeImage(
+        job.bitmap, job.targetWidth, job.targetHeight, job.imageId, job.sourceHash, job.options
+      );
+      results.set(job.imageId, result);
+      completed++;
+      onProgress?.(completed, jobs.length, { imageId: job.imageId, result });
+    }
+  };
 
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, jobs.length)) }, runner));
   return results;
 }
@@ -1,8 +1,10 @@
-import type { CropState, AppSettings, DEFAULT_APP_SETTINGS } from '@/types/image';
+import type { CropState, AppSettings, ExportSettings, FocalPoint } from '@/types/image';
+import { DEFAULT_APP_SETTINGS } from '@/types/image';
 
 const STORAGE_PREFIX = 'mybirme_';
 const SETTINGS_KEY = `${STORAGE_PREFIX}settings`;
 const CROPS_KEY = `${STORAGE_PREFIX}crops`;
+const FOCAL_POINTS_KEY = `${STORAGE_PREFIX}focal_points`;
 
 /**
  * Save app settings to localStorage
@@ -17,12 +19,19 @@ export function saveSettings(settings: AppSettings): void {
 
 /**
  * Load app settings from localStorage
+ * Settings saved by older versions are filled in with the current defaults
  */
 export function loadSettings(): AppSettings | null {
   try {
     const stored = localStorage.getItem(SETTINGS_KEY);
     if (stored) {
-      return JSON.parse(stored);
+      const parsed = JSON.parse(stored) as Partial<AppSettings>;
+      return {
+        ...DEFAULT_APP_SETTINGS,
+        ...parsed,
+        smartCropOptions: { ...DEFAULT_APP_SETTINGS.smartCropOptions, ...parsed.smartCropOptions },
+        exportSettings: migrateExportSettings(parsed.exportSettings),
+      };
     }
   } catch (error) {
     console.error('Failed to load settings:', error);
@@ -30,6 +39,25 @@ export function loadSettings(): AppSettings | null {
   return null;
 }
 
+// Fields from older versions that have since been replaced
+interface LegacyExportSettings {
+  prefix?: string;
+  suffix?: string;
+}
+
+function migrateExportSettings(
+  stored: (Partial<ExportSettings> & LegacyExportSettings) | undefined
+): ExportSettings {
+  const { prefix, suffix, ...rest } = stored ?? {};
+  const settings = { ...DEFAULT_APP_SETTINGS.exportSettings, ...rest };
+
+  // prefix + index + suffix became a filename template
+  if (!rest.filenameTemplate && (prefix !== undefined || suffix !== undefined)) {
+    settings.filenameTemplate = `${prefix ?? ''}{index}${suffix ?? ''}`;
+  }
+  return settings;
+}
+
 /**
  * Save crop states to localStorage
  */
@@ -56,6 +84,32 @@ export function loadCropStates(): Record<string, CropState> | null {
   return null;
 }
 
+/**
+ * Save focal points (by source hash) to localStorage
+ */
+export function saveFocalPoints(focalPoints: Record<string, FocalPoint>): void {
+  try {
+    localStorage.setItem(FOCAL_POINTS_KEY, JSON.stringify(focalPoints));
+  } catch (error) {
+    console.error('Failed to save focal points:', error);
+  }
+}
+
+/**
+ * Load focal points from localStorage
+ */
+export function loadFocalPoints(): Record<string, FocalPoint> | null {
+  try {
+    const stored = localStorage.getItem(FOCAL_POINTS_KEY);
+    if (stored) {
+      return JSON.parse(stored);
+    }
+  } catch (error) {
+    console.error('Failed to load focal points:', error);
+  }
+  return null;
+}
+
 /**
  * Clear all stored data
  */
@@ -63,6 +117,7 @@ export function clearStorage(): void {
   try {
     localStorage.removeItem(SETTINGS_KEY);
     localStorage.removeItem(CROPS_KEY);
+    localStorage.removeItem(FOCAL_POINTS_KEY);
   } catch (error) {
     console.error('Failed to clear storage:', error);
   }
@@ -0,0 +1,90 @@
+import { saveAs } from 'file-saver';
+import { createZipWriter, getZipEntrySize, type ZipWriter } from './zipWriter';
+import type { ExportOutput } from './exportOutput';
+
+export function supportsZipStreaming(): boolean {
+  return typeof window !== 'undefined' && typeof window.showSaveFilePicker === 'function';
+}
+
+/**
+ * Open a ZIP named filename: streamed to a file the user picks, or, without
+ * the File System Access API, downloaded in parts of a limited size
+ * Shows the save dialog when streaming to disk.
+ */
+export async function openZipOutput(filename: string, partSizeMB: number): Promise<ExportOutput> {
+  if (supportsZipStreaming()) {
+    const handle = await window.showSaveFilePicker({
+      suggestedName: filename,
+      types: [{ description: 'ZIP archive', accept: { 'application/zip': ['.zip'] } }],
+    });
+    return createFileZipOutput(await handle.createWritable());
+  }
+  return createPartedZipOutput(filename, partSizeMB * 1024 * 1024);
+}
+
+function createFileZipOutput(stream: FileSystemWritableFileStream): ExportOutput {
+  const writer = createZipWriter({ write: (data) => stream.write(data) });
+
+  return {
+    async addFile(path, data, date) {
+      await writer.addFile(path, data, date);
+      return path;
+    },
+    async finish() {
+      await writer.finish();
+      await stream.close();
+    },
+    async abort() {
+      await stream.abort();
+    },
+  };
+}
+
+/**
+ * Each part is a complete ZIP kept in memory and downloaded as soon as the
+ * next file wouldn't fit, so at most one part is held at a time. Parts are
+ * named "-part1", "-part2", ... unless everything fits in one.
+ */
+function createPartedZipOutput(filename: string, partSize: number): ExportOutput {
+  const baseName = filename.replace(/\.zip$/i, '');
+  let chunks: Array<Uint8Array | Blob> = [];
+  let writer: ZipWriter | null = null;
+  let partNumber = 0;
+
+  const startPart = () => {
+    chunks = [];
+    partNumber++;
+    writer = createZipWriter({
+      write: async (data) => {
+        chunks.push(data);
+      },
+    });
+  };
+
+  const savePart = async (isLast: boolean) => {
+    await writer.finish();
+    const name = isLast && partNumber === 1 ? filename : `${baseName}-part${partNumber}.zip`;
+    saveAs(new Blob(chunks, { type: 'application/zip' }), name);
+    chunks = [];
+    writer = null;
+  };
+
+  return {
+    async addFile(path, data, date) {
+      if (writer && writer.entryCount > 0 && writer.size + getZipEntrySize(path, data.size) > partSize) {
+        await savePart(false);
+      }
+      if (!writer) startPart();
+      await writer.addFile(path, data, date);
+      return path;
+    },
+    async finish() {
+      if (!writer) startPart();
+      await savePart(true);
+    },
+    async abort() {
+      chunks = [];
+      writer = null;
+    },
+  };
+}
@@ -0,0 +1,229 @@
+/**
+ * Minimal streaming ZIP writer: files are stored uncompressed (images are
+ * already compressed) and each one is written out as soon as it's added, so
+ * only the central directory stays in memory. Switches to ZIP64 records when
+ * the archive passes 4 GB or 65535 entries.
+ */
+
+export interface ZipSink {
+  write(data: Uint8Array | Blob): Promise<void>;
+}
+
+export interface ZipWriter {
+  readonly entryCount: number;
+  /** Size of the archive if it were finished now */
+  readonly size: number;
+  addFile(path: string, data: Blob, date?: Date): Promise<void>;
+  /** Write the central directory; the archive is complete once this resolves */
+  finish(): Promise<void>;
+}
+
+interface CentralEntry {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  offset: number;
+  time: number;
+  date: number;
+}
+
+const LOCAL_HEADER_SIZE = 30;
+const CENTRAL_HEADER_SIZE = 46;
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+const ZIP64_END_SIZE = 56 + 20; // ZIP64 end record + locator
+const ZIP64_OFFSET_EXTRA_SIZE = 12;
+
+const MAX_UINT16 = 0xffff;
+const MAX_UINT32 = 0xffffffff;
+
+const FLAG_UTF8 = 0x0800;
+const VERSION_DEFAULT = 20;
+const VERSION_ZIP64 = 45;
+
+/**
+ * Bytes a file adds to an archive, headers and central directory included
+ */
+export function getZipEntrySize(path: string, bytes: number): number {
+  const nameLength = new TextEncoder().encode(path).length;
+  return LOCAL_HEADER_SIZE + CENTRAL_HEADER_SIZE + nameLength * 2 + bytes + ZIP64_OFFSET_EXTRA_SIZE;
+}
+
+export function createZipWriter(sink: ZipSink): ZipWriter {
+  const entries: CentralEntry[] = [];
+  const usedNames = new Set<string>();
+  const encoder = new TextEncoder();
+  let offset = 0;
+  let directorySize = 0;
+  let finished = false;
+
+  const write = async (data: Uint8Array | Blob) => {
+    await sink.write(data);
+    offset += data instanceof Blob ? data.size : data.length;
+  };
+
+  return {
+    get entryCount() {
+      return entries.length;
+    },
+
+    get size() {
+      return offset + directorySize + END_OF_CENTRAL_DIRECTORY_SIZE + ZIP64_END_SIZE;
+    },
+
+    async addFile(path, data, date = new Date()) {
+      if (finished) throw new Error('ZIP archive is already finished');
+      if (usedNames.has(path)) throw new Error(`Duplicate ZIP entry: ${path}`);
+      if (data.size > MAX_UINT32) throw new Error(`File too large for ZIP: ${path}`);
+      usedNames.add(path);
+
+      const name = encoder.encode(path);
+      const crc = crc32(new Uint8Array(await data.arrayBuffer()));
+      const { time, date: dosDate } = toDosDateTime(date);
+      const entry: CentralEntry = { name, crc, size: data.size, offset, time, date: dosDate };
+
+      const header = new DataView(new ArrayBuffer(LOCAL_HEADER_SIZE));
+      header.setUint32(0, 0x04034b50, true);
+      header.setUint16(4, VERSION_DEFAULT, true);
+      header.setUint16(6, FLAG_UTF8, true);
+      header.setUint16(8, 0, true); // stored
+      header.setUint16(10, time, true);
+      header.setUint16(12, dosDate, true);
+      header.setUint32(14, crc, true);
+      header.setUint32(18, data.size, true);
+      header.setUint32(22, data.size, true);
+      header.setUint16(26, name.length, true);
+      header.setUint16(28, 0, true);
+
+      await write(concat([new Uint8Array(header.buffer), name]));
+      await write(data);
+      entries.push(entry);
+      directorySize += CENTRAL_HEADER_SIZE + name.length + (entry.offset > MAX_UINT32 ? ZIP64_OFFSET_EXTRA_SIZE : 0);
+    },
+
+    async finish() {
+      if (finished) return;
+      finished = true;
+
+      const directoryOffset = offset;
+      const directory = concat(entries.map(getCentralRecord));
+      await write(directory);
+
+      const needsZip64 =
+        entries.length > MAX_UINT16 || directoryOffset > MAX_UINT32 || directory.length > MAX_UINT32;
+      if (needsZip64) {
+        await write(getZip64End(entries.length, directory.length, directoryOffset, offset));
+      }
+
+      const end = new DataView(new ArrayBuffer(END_OF_CENTRAL_DIRECTORY_SIZE));
+      end.setUint32(0, 0x06054b50, true);
+      end.setUint16(4, 0, true);
+      end.setUint16(6, 0, true);
+      end.setUint16(8, Math.min(entries.length, MAX_UINT16), true);
+      end.setUint16(10, Math.min(entries.length, MAX_UINT16), true);
+      end.setUint32(12, Math.min(directory.length, MAX_UINT32), true);
+      end.setUint32(16, Math.min(directoryOffset, MAX_UINT32), true);
+      end.setUint16(20, 0, true);
+      await write(new Uint8Array(end.buffer));
+    },
+  };
+}
+
+function getCentralRecord(entry: CentralEntry): Uint8Array {
+  // Offsets past 4 GB move into a ZIP64 extra field
+  const zip64 = entry.offset > MAX_UINT32;
+  const extraLength = zip64 ? ZIP64_OFFSET_EXTRA_SIZE : 0;
+
+  const record = new DataView(new ArrayBuffer(CENTRAL_HEADER_SIZE + entry.name.length + extraLength));
+  record.setUint32(0, 0x02014b50, true);
+  record.setUint16(4, VERSION_ZIP64, true);
+  record.setUint16(6, zip64 ? VERSION_ZIP64 : VERSION_DEFAULT, true);
+  record.setUint16(8, FLAG_UTF8, true);
+  record.setUint16(10, 0, true);
+  record.setUint16(12, entry.time, true);
+  record.setUint16(14, entry.date, true);
+  record.setUint32(16, entry.crc, true);
+  record.setUint32(20, entry.size, true);
+  record.setUint32(24, entry.size, true);
+  record.setUint16(28, entry.name.length, true);
+  record.setUint16(30, extraLength, true);
+  record.setUint16(32, 0, true); // comment
+  record.setUint16(34, 0, true); // disk
+  record.setUint16(36, 0, true); // internal attributes
+  record.setUint32(38, 0, true); // external attributes
+  record.setUint32(42, zip64 ? MAX_UINT32 : entry.offset, true);
+
+  const bytes = new Uint8Array(record.buffer);
+  bytes.set(entry.name, CENTRAL_HEADER_SIZE);
+  if (zip64) {
+    const extra = CENTRAL_HEADER_SIZE + entry.name.length;
+    record.setUint16(extra, 0x0001, true);
+    record.setUint16(extra + 2, 8, true);
+    record.setBigUint64(extra + 4, BigInt(entry.offset), true);
+  }
+  return bytes;
+}
+
+// ZIP64 end of central directory record followed by its locator
+function getZip64End(
+  entryCount: number,
+  directorySize: number,
+  directoryOffset: number,
+  recordOffset: number
+): Uint8Array {
+  const view = new DataView(new ArrayBuffer(ZIP64_END_SIZE));
+  view.setUint32(0, 0x06064b50, true);
+  view.setBigUint64(4, BigInt(56 - 12), true); // record size after this field
+  view.setUint16(12, VERSION_ZIP64, true);
+  view.setUint16(14, VERSION_ZIP64, true);
+  view.setUint32(16, 0, true);
+  view.setUint32(20, 0, true);
+  view.setBigUint64(24, BigInt(entryCount), true);
+  view.setBigUint64(32, BigInt(entryCount), true);
+  view.setBigUint64(40, BigInt(directorySize), true);
+  view.setBigUint64(48, BigInt(directoryOffset), true);
+
+  view.setUint32(56, 0x07064b50, true);
+  view.setUint32(60, 0, true);
+  view.setBigUint64(64, BigInt(recordOffset), true);
+  view.setUint32(72, 1, true);
+  return new Uint8Array(view.buffer);
+}
+
+function toDosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(1980, date.getFullYear());
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  for (const part of parts) {
+    result.set(part, position);
+    position += part.length;
+  }
+  return result;
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect } from "vitest";
+import {
+  createFilenameDeduplicator,
+  getBaseName,
+  renderFilenameTemplate,
+  templateUsesHash,
+  type FilenameContext,
+} from "@/lib/filenameTemplate";
+
+const context: FilenameContext = {
+  name: "holiday",
+  index: 7,
+  width: 1200,
+  height: 800,
+  date: new Date(2024, 2, 5, 9, 4, 3),
+  extension: "jpg",
+  hash: "a1b2c3d4",
+};
+
+describe("renderFilenameTemplate", () => {
+  it("expands every token", () => {
+    expect(renderFilenameTemplate("{name}_{index}_{width}x{height}_{hash}", context)).toBe(
+      "holiday_7_1200x800_a1b2c3d4.jpg"
+    );
+  });
+
+  it("pads the index to the requested width", () => {
+    expect(renderFilenameTemplate("img-{index:03}", context)).toBe("img-007.jpg");
+    expect(renderFilenameTemplate("img-{index:abc}", context)).toBe("img-7.jpg");
+  });
+
+  it("formats dates, defaulting to YYYYMMDD", () => {
+    expect(renderFilenameTemplate("{date}", context)).toBe("20240305.jpg");
+    expect(renderFilenameTemplate("{date:YYYY-MM-DD_HHmmss}", context)).toBe("2024-03-05_090403.jpg");
+  });
+
+  it("appends the extension only when {ext} isn't used", () => {
+    expect(renderFilenameTemplate("{name}", context)).toBe("holiday.jpg");
+    expect(renderFilenameTemplate("{name}.{ext}", context)).toBe("holiday.jpg");
+    expect(renderFilenameTemplate("{ext}-{name}", context)).toBe("jpg-holiday");
+  });
+
+  it("leaves unknown tokens as written", () => {
+    expect(renderFilenameTemplate("{name}-{camera}", context)).toBe("holiday-{camera}.jpg");
+  });
+
+  it("replaces characters that aren't allowed in filenames", () => {
+    expect(renderFilenameTemplate('a<b>c:d"e/f\\g|h?i*j\u0001', context)).toBe("a_b_c_d_e_f_g_h_i_j_.jpg");
+    expect(renderFilenameTemplate("{name}", { ...context, name: "../etc/passwd" })).toBe(".._etc_passwd.jpg");
+  });
+
+  it("falls back to a default name when nothing is left", () => {
+    expect(renderFilenameTemplate("   ", context)).toBe("image.jpg");
+  });
+});
+
+describe("createFilenameDeduplicator", () => {
+  it("numbers repeated names before the extension", () => {
+    const dedupe = createFilenameDeduplicator();
+    expect(dedupe("photo.jpg")).toBe("photo.jpg");
+    expect(dedupe("photo.jpg")).toBe("photo-2.jpg");
+    expect(dedupe("photo.jpg")).toBe("photo-3.jpg");
+  });
+
+  it("ignores case when comparing", () => {
+    const dedupe = createFilenameDeduplicator();
+    expect(dedupe("Photo.JPG")).toBe("Photo.JPG");
+    expect(dedupe("photo.jpg")).toBe("photo-2.jpg");
+  });
+
+  it("skips numbers that are already taken", () => {
+    const dedupe = createFilenameDeduplicator();
+    dedupe("photo.jpg");
+    dedupe("photo-2.jpg");
+    expect(dedupe("photo.jpg")).toBe("photo-3.jpg");
+  });
+
+  it("handles names without an extension", () => {
+    const dedupe = createFilenameDeduplicator();
+    dedupe("README");
+    expect(dedupe("readme")).toBe("readme-2");
+  });
+});
+
+describe("helpers", () => {
+  it("strips only the last extension", () => {
+    expect(getBaseName("archive.tar.gz")).toBe("archive.tar");
+    expect(getBaseName(".hidden")).toBe(".hidden");
+  });
+
+  it("detects the hash token", () => {
+    expect(templateUsesHash("{name}-{hash}")).toBe(true);
+    expect(templateUsesHash("{name}-hash")).toBe(false);
+  });
+});
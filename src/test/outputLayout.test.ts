@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import { getOutputLayout, getSourceRect } from "@/lib/outputLayout";
+import { DEFAULT_CROP_STATE, DEFAULT_EXPORT_SETTINGS, type ExportSettings } from "@/types/image";
+
+const settings: ExportSettings = {
+  ...DEFAULT_EXPORT_SETTINGS,
+  sizeMode: "exact",
+  resizeMode: "cover",
+  targetWidth: 1200,
+  targetHeight: 800,
+};
+
+describe("getOutputLayout", () => {
+  it("fills and trims the target box for locked crops", () => {
+    expect(getOutputLayout(1000, 500, settings)).toEqual({
+      canvasWidth: 1200,
+      canvasHeight: 800,
+      drawX: -200,
+      drawY: 0,
+      drawWidth: 1600,
+      drawHeight: 800,
+    });
+  });
+
+  it("keeps a free crop's shape even with crop-to-fill selected", () => {
+    const free: ExportSettings = { ...settings, cropMode: "free" };
+    const source = getSourceRect(1000, 1000, { ...DEFAULT_CROP_STATE, aspect: 2 }, free);
+    expect(source).toMatchObject({ x: 0, y: 250, width: 1000, height: 500 });
+
+    expect(getOutputLayout(source.width, source.height, free)).toEqual({
+      canvasWidth: 1200,
+      canvasHeight: 600,
+      drawX: 0,
+      drawY: 0,
+      drawWidth: 1200,
+      drawHeight: 600,
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect } from "vitest";
+import { resamplePixels, type PixelBuffer } from "@/lib/resample";
+import type { ResampleFilter } from "@/types/image";
+
+const FILTERS: ResampleFilter[] = ["bilinear", "bicubic", "lanczos3"];
+
+function makeImage(
+  width: number,
+  height: number,
+  pixel: (x: number, y: number) => [number, number, number, number]
+): PixelBuffer {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      data.set(pixel(x, y), (y * width + x) * 4);
+    }
+  }
+  return { data, width, height };
+}
+
+function gray(image: PixelBuffer, x: number, y: number): number {
+  return image.data[(y * image.width + x) * 4];
+}
+
+function grayValues(image: PixelBuffer): number[] {
+  const values: number[] = [];
+  for (let i = 0; i < image.data.length; i += 4) values.push(image.data[i]);
+  return values;
+}
+
+// Largest jump between neighbouring pixels along the middle row
+function maxRowStep(image: PixelBuffer): number {
+  const y = Math.floor(image.height / 2);
+  let max = 0;
+  for (let x = 1; x < image.width; x++) {
+    max = Math.max(max, Math.abs(gray(image, x, y) - gray(image, x - 1, y)));
+  }
+  return max;
+}
+
+describe("resamplePixels", () => {
+  it.each(FILTERS)("%s produces the requested size", (filter) => {
+    const source = makeImage(97, 61, () => [10, 20, 30, 255]);
+    const result = resamplePixels(source, 40, 25, filter);
+    expect(result.width).toBe(40);
+    expect(result.height).toBe(25);
+    expect(result.data.length).toBe(40 * 25 * 4);
+  });
+
+  it.each(FILTERS)("%s keeps a flat color flat", (filter) => {
+    const source = makeImage(120, 80, () => [200, 100, 50, 255]);
+    const result = resamplePixels(source, 17, 11, filter);
+    for (let i = 0; i < result.data.length; i += 4) {
+      expect(result.data[i]).toBe(200);
+      expect(result.data[i + 1]).toBe(100);
+      expect(result.data[i + 2]).toBe(50);
+      expect(result.data[i + 3]).toBe(255);
+    }
+  });
+
+  it.each(FILTERS)("%s averages a 1px checkerboard to gray on a big reduction", (filter) => {
+    // Point sampling would give pure black or white here (aliasing)
+    const source = makeImage(600, 400, (x, y) => {
+      const v = (x + y) % 2 === 0 ? 255 : 0;
+      return [v, v, v, 255];
+    });
+    const result = resamplePixels(source, 40, 26, filter);
+    for (const value of grayValues(result)) {
+      expect(Math.abs(value - 127.5)).toBeLessThan(4);
+    }
+  });
+
+  it("agrees across filters on a smooth gradient", () => {
+    const source = makeImage(300, 60, (x) => {
+      const v = Math.round((x / 299) * 255);
+      return [v, v, v, 255];
+    });
+    const results = FILTERS.map((filter) => grayValues(resamplePixels(source, 50, 10, filter)));
+    for (let i = 0; i < results[0].length; i++) {
+      expect(Math.abs(results[0][i] - results[1][i])).toBeLessThanOrEqual(3);
+      expect(Math.abs(results[0][i] - results[2][i])).toBeLessThanOrEqual(3);
+    }
+  });
+
+  it("keeps a hard edge sharper with bicubic and Lanczos3 than with bilinear", () => {
+    const source = makeImage(301, 20, (x) => {
+      const v = x < 150 ? 0 : 255;
+      return [v, v, v, 255];
+    });
+    const bilinear = maxRowStep(resamplePixels(source, 100, 10, "bilinear"));
+    const bicubic = maxRowStep(resamplePixels(source, 100, 10, "bicubic"));
+    const lanczos = maxRowStep(resamplePixels(source, 100, 10, "lanczos3"));
+    expect(bicubic).toBeGreaterThan(bilinear);
+    expect(lanczos).toBeGreaterThanOrEqual(bicubic);
+  });
+
+  it("shows Lanczos3 ringing next to a hard edge", () => {
+    const source = makeImage(300, 20, (x) => {
+      const v = x < 150 ? 64 : 192;
+      return [v, v, v, 255];
+    });
+    const lanczos = grayValues(resamplePixels(source, 100, 10, "lanczos3"));
+    const bilinear = grayValues(resamplePixels(source, 100, 10, "bilinear"));
+    expect(Math.max(...lanczos)).toBeGreaterThan(192);
+    expect(Math.min(...lanczos)).toBeLessThan(64);
+    expect(Math.max(...bilinear)).toBeLessThanOrEqual(192);
+    expect(Math.min(...bilinear)).toBeGreaterThanOrEqual(64);
+  });
+
+  it.each(FILTERS)("%s doesn't bleed the color of transparent pixels", (filter) => {
+    // Left half transparent red, right half opaque blue
+    const source = makeImage(64, 16, (x) => (x < 32 ? [255, 0, 0, 0] : [0, 0, 255, 255]));
+    const result = resamplePixels(source, 16, 4, filter);
+    for (let i = 0; i < result.data.length; i += 4) {
+      if (result.data[i + 3] > 0) {
+        expect(result.data[i]).toBeLessThan(8);
+        expect(result.data[i + 2]).toBeGreaterThan(247);
+      }
+    }
+  });
+
+  it("halves in steps before the final bilinear pass", () => {
+    // 2x2 blocks of distinct values average exactly when the reduction is a power of two
+    const source = makeImage(8, 8, (x, y) => {
+      const v = (Math.floor(x / 2) + Math.floor(y / 2) * 4) * 16;
+      return [v, v, v, 255];
+    });
+    const result = resamplePixels(source, 4, 4, "bilinear");
+    for (let y = 0; y < 4; y++) {
+      for (let x = 0; x < 4; x++) {
+        expect(gray(result, x, y)).toBe((x + y * 4) * 16);
+      }
+    }
+  });
+});
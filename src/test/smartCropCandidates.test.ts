@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import { findSmartCrop } from "@/lib/smartCropCandidates";
+import { DEFAULT_SMART_CROP_OPTIONS } from "@/types/image";
+
+// Just enough of a 2D canvas for smartcrop: nearest-neighbour drawImage and getImageData
+class FakeCanvas {
+  data: Uint8ClampedArray;
+
+  constructor(public width: number, public height: number) {
+    this.data = new Uint8ClampedArray(width * height * 4);
+  }
+
+  getContext() {
+    return {
+      drawImage: (source: FakeCanvas, ...args: number[]) => {
+        const [sx, sy, sw, sh, dx, dy, dw, dh] =
+          args.length === 2
+            ? [0, 0, source.width, source.height, args[0], args[1], source.width, source.height]
+            : args;
+        for (let y = 0; y < dh; y++) {
+          for (let x = 0; x < dw; x++) {
+            const from = (Math.floor(sy + (y * sh) / dh) * source.width + Math.floor(sx + (x * sw) / dw)) * 4;
+            const to = ((dy + y) * this.width + dx + x) * 4;
+            this.data.set(source.data.subarray(from, from + 4), to);
+          }
+        }
+      },
+      getImageData: () => ({ data: this.data }),
+    };
+  }
+}
+
+// Flat gray with a high-contrast checkerboard in the top-left corner
+function makeImage(size: number, patch: number): FakeCanvas {
+  const image = new FakeCanvas(size, size);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const inPatch = x < patch && y < patch;
+      const value = inPatch ? ((x >> 2) + (y >> 2)) % 2 ? 255 : 0 : 128;
+      image.data.set([value, value, value, 255], (y * size + x) * 4);
+    }
+  }
+  return image;
+}
+
+const canvasFactory = (width: number, height: number) => new FakeCanvas(width, height) as never;
+
+describe("findSmartCrop", () => {
+  const image = makeImage(400, 80) as never;
+
+  it("only tries the largest crop at minScale 1", async () => {
+    const result = await findSmartCrop(
+      image,
+      1200,
+      800,
+      { ...DEFAULT_SMART_CROP_OPTIONS, minScale: 1, maxScale: 1 },
+      canvasFactory
+    );
+    expect(result.width).toBe(400);
+  });
+
+  it("zooms in below minScale 1, even for a target larger than the image", async () => {
+    const result = await findSmartCrop(
+      image,
+      1200,
+      800,
+      { ...DEFAULT_SMART_CROP_OPTIONS, minScale: 0.4, maxScale: 1 },
+      canvasFactory
+    );
+    expect(result.width).toBeLessThan(400);
+    expect(result.width / result.height).toBeCloseTo(1.5, 1);
+    expect(result.candidates.length).toBeGreaterThan(1);
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeAll } from "vitest";
+import { Blob as NodeBlob } from "buffer";
+import { createZipWriter, getZipEntrySize } from "@/lib/zipWriter";
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP64_END = 0x06064b50;
+const ZIP64_LOCATOR = 0x07064b50;
+
+const FOUR_GB = 0x100000000;
+
+// What was written: header bytes, plus files by size so huge ones needn't exist
+type Chunk = { offset: number; bytes: Uint8Array } | { offset: number; size: number };
+
+function createRecordingSink() {
+  const chunks: Chunk[] = [];
+  let offset = 0;
+  return {
+    chunks,
+    sink: {
+      async write(data: Uint8Array | Blob) {
+        if (data instanceof Uint8Array) {
+          chunks.push({ offset, bytes: data });
+          offset += data.length;
+        } else {
+          chunks.push({ offset, size: data.size });
+          offset += data.size;
+        }
+      },
+    },
+    get length() {
+      return offset;
+    },
+  };
+}
+
+function bytesAt(chunks: Chunk[], offset: number): DataView {
+  const chunk = chunks.find((c) => c.offset === offset && "bytes" in c);
+  if (!chunk || !("bytes" in chunk)) throw new Error(`No header written at ${offset}`);
+  return new DataView(chunk.bytes.buffer, chunk.bytes.byteOffset, chunk.bytes.byteLength);
+}
+
+function readName(view: DataView, start: number, length: number): string {
+  return new TextDecoder().decode(new Uint8Array(view.buffer, view.byteOffset + start, length));
+}
+
+// Reports a size past what's really there, to push later offsets beyond 4 GB
+class OversizedBlob extends NodeBlob {
+  constructor(size: number) {
+    super([new Uint8Array(4)]);
+    Object.defineProperty(this, "size", { value: size });
+  }
+}
+
+beforeAll(() => {
+  // jsdom's Blob has no arrayBuffer()
+  globalThis.Blob = NodeBlob as never;
+});
+
+describe("createZipWriter", () => {
+  it("writes local headers, a central directory and the end record", async () => {
+    const recording = createRecordingSink();
+    const writer = createZipWriter(recording.sink);
+    const date = new Date(2024, 2, 5, 9, 4, 6);
+
+    await writer.addFile("a.txt", new Blob(["hello"]), date);
+    await writer.addFile("fotos/ü.jpg", new Blob(["world!"]), date);
+    const sizeBeforeFinish = writer.size;
+    await writer.finish();
+
+    expect(writer.entryCount).toBe(2);
+    expect(recording.length).toBe(sizeBeforeFinish - 76); // the unused ZIP64 reserve
+
+    const local = bytesAt(recording.chunks, 0);
+    expect(local.getUint32(0, true)).toBe(LOCAL_HEADER);
+    expect(local.getUint16(6, true) & 0x0800).toBe(0x0800); // UTF-8 names
+    expect(local.getUint16(8, true)).toBe(0); // stored
+    expect(local.getUint16(10, true)).toBe((9 << 11) | (4 << 5) | 3);
+    expect(local.getUint16(12, true)).toBe(((2024 - 1980) << 9) | (3 << 5) | 5);
+    expect(local.getUint32(14, true)).toBe(0x3610a686); // CRC-32 of "hello"
+    expect(local.getUint32(18, true)).toBe(5);
+    expect(local.getUint32(22, true)).toBe(5);
+    expect(readName(local, 30, local.getUint16(26, true))).toBe("a.txt");
+
+    const secondOffset = 30 + 5 + 5;
+    const second = bytesAt(recording.chunks, secondOffset);
+    expect(second.getUint32(0, true)).toBe(LOCAL_HEADER);
+    expect(readName(second, 30, second.getUint16(26, true))).toBe("fotos/ü.jpg");
+
+    const end = bytesAt(recording.chunks, recording.length - 22);
+    expect(end.getUint32(0, true)).toBe(END_OF_CENTRAL_DIRECTORY);
+    expect(end.getUint16(8, true)).toBe(2);
+    expect(end.getUint16(10, true)).toBe(2);
+    const directorySize = end.getUint32(12, true);
+    const directoryOffset = end.getUint32(16, true);
+    expect(directoryOffset + directorySize).toBe(recording.length - 22);
+
+    const directory = bytesAt(recording.chunks, directoryOffset);
+    expect(directory.getUint32(0, true)).toBe(CENTRAL_HEADER);
+    expect(directory.getUint32(16, true)).toBe(0x3610a686);
+    expect(directory.getUint32(42, true)).toBe(0);
+    const secondRecord = 46 + directory.getUint16(28, true);
+    expect(directory.getUint32(secondRecord, true)).toBe(CENTRAL_HEADER);
+    expect(directory.getUint32(secondRecord + 42, true)).toBe(secondOffset);
+    expect(readName(directory, secondRecord + 46, directory.getUint16(secondRecord + 28, true))).toBe(
+      "fotos/ü.jpg"
+    );
+  });
+
+  it("switches to ZIP64 records once offsets pass 4 GB", async () => {
+    const recording = createRecordingSink();
+    const writer = createZipWriter(recording.sink);
+
+    await writer.addFile("big-1.bin", new OversizedBlob(3_000_000_000));
+    await writer.addFile("big-2.bin", new OversizedBlob(3_000_000_000));
+    await writer.addFile("after.txt", new Blob(["tail"]));
+    await writer.finish();
+
+    const thirdOffset = 2 * (30 + 9 + 3_000_000_000);
+    expect(thirdOffset).toBeGreaterThan(FOUR_GB);
+    expect(bytesAt(recording.chunks, thirdOffset).getUint32(0, true)).toBe(LOCAL_HEADER);
+
+    // EOCD points at the ZIP64 records instead of holding the offset
+    const end = bytesAt(recording.chunks, recording.length - 22);
+    expect(end.getUint32(0, true)).toBe(END_OF_CENTRAL_DIRECTORY);
+    expect(end.getUint32(16, true)).toBe(0xffffffff);
+
+    const zip64End = bytesAt(recording.chunks, recording.length - 22 - 76);
+    expect(zip64End.getUint32(0, true)).toBe(ZIP64_END);
+    expect(Number(zip64End.getBigUint64(24, true))).toBe(3);
+    const directorySize = Number(zip64End.getBigUint64(40, true));
+    const directoryOffset = Number(zip64End.getBigUint64(48, true));
+    expect(directoryOffset + directorySize).toBe(recording.length - 22 - 76);
+
+    expect(zip64End.getUint32(56, true)).toBe(ZIP64_LOCATOR);
+    expect(Number(zip64End.getBigUint64(64, true))).toBe(recording.length - 22 - 76);
+
+    // Only the entry past 4 GB needs the ZIP64 offset field
+    const directory = bytesAt(recording.chunks, directoryOffset);
+    let record = 0;
+    for (let n = 0; n < 2; n++) {
+      expect(directory.getUint16(record + 30, true)).toBe(0);
+      record += 46 + directory.getUint16(record + 28, true);
+    }
+    expect(directory.getUint32(record, true)).toBe(CENTRAL_HEADER);
+    expect(directory.getUint16(record + 6, true)).toBe(45);
+    expect(directory.getUint32(record + 42, true)).toBe(0xffffffff);
+    const extra = record + 46 + directory.getUint16(record + 28, true);
+    expect(directory.getUint16(record + 30, true)).toBe(12);
+    expect(directory.getUint16(extra, true)).toBe(0x0001);
+    expect(directory.getUint16(extra + 2, true)).toBe(8);
+    expect(Number(directory.getBigUint64(extra + 4, true))).toBe(thirdOffset);
+  });
+
+  it("rejects duplicate paths and writes after finishing", async () => {
+    const writer = createZipWriter(createRecordingSink().sink);
+    await writer.addFile("a.txt", new Blob(["a"]));
+    await expect(writer.addFile("a.txt", new Blob(["b"]))).rejects.toThrow("Duplicate");
+    await writer.finish();
+    await expect(writer.addFile("b.txt", new Blob(["b"]))).rejects.toThrow("finished");
+  });
+
+  it("estimates an entry's share of the archive", () => {
+    // Local + central header, the name twice, the data and a possible ZIP64 field
+    expect(getZipEntrySize("a.txt", 100)).toBe(30 + 46 + 5 * 2 + 100 + 12);
+  });
+});
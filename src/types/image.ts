@@ -4,8 +4,10 @@ export interface CropState {
   centerX: number; // 0..1 normalized position
   centerY: number; // 0..1 normalized position
   scale: number;   // 1 = fit; >1 = zoom in
-  aspect: number;  // targetWidth / targetHeight
-  rotation?: number; // reserved (EXIF pre-normalized)
+  aspect: number;  // targetWidth / targetHeight (crop width / height in free mode)
+  rotation?: number; // degrees clockwise, applied after EXIF normalization
+  flipX?: boolean; // mirror the output horizontally
+  flipY?: boolean; // mirror the output vertically
   sourceHash?: string; // for persistence
 }
 
@@ -13,17 +15,26 @@ export interface ImageFile {
   id: string;
   file: File;
   name: string;
+  relativePath: string; // within an imported folder, e.g. "trip/day1/a.jpg"; empty for loose files
   originalWidth: number;
   originalHeight: number;
   bitmap: ImageBitmap | null;
   thumbnail: string; // base64 or object URL
   cropState: CropState;
+  profileCropStates?: Record<string, CropState>; // by profile id, for profiles with their own aspect
+  focalPoint?: FocalPoint; // set by hand; crops of any aspect are framed around it
   smartCropResult?: SmartCropResult;
   isProcessing: boolean;
   isSmartCropPending: boolean;
 }
 
-export interface SmartCropResult {
+// The subject of an image, 0..1 normalized in the source image (before rotation)
+export interface FocalPoint {
+  x: number;
+  y: number;
+}
+
+export interface SmartCropCandidate {
   x: number;
   y: number;
   width: number;
@@ -31,20 +42,140 @@ export interface SmartCropResult {
   score: number;
 }
 
+export interface SmartCropResult extends SmartCropCandidate {
+  candidates: SmartCropCandidate[]; // distinct best crops, highest score first (the first is this one)
+}
+
+// How much each pixel counts toward smartcrop's score, 0..255, at analysis resolution
+export interface SaliencyMap {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray; // one value per pixel, row by row
+}
+
+// smartcrop tuning; the weights set how much each feature adds to a crop's score
+export interface SmartCropOptions {
+  minScale: number; // smallest crop tried, relative to the largest that fits
+  maxScale: number;
+  ruleOfThirds: boolean; // favor features on the thirds lines
+  skinWeight: number;
+  detailWeight: number;
+  saturationWeight: number;
+}
+
+export type ResizeMode = 'cover' | 'contain' | 'pad' | 'stretch';
+
+// exact = targetWidth x targetHeight; the others keep each image's own aspect
+export type SizeMode = 'exact' | 'width' | 'height' | 'longest' | 'shortest' | 'percent';
+
+export type PadBackground = 'color' | 'blur' | 'transparent';
+
+// What to do when the source region is smaller than the output
+export type UpscaleMode = 'allow' | 'limit' | 'pad';
+
+export type ExportFormat = 'jpeg' | 'png' | 'webp' | 'avif' | 'gif' | 'bmp' | 'tiff';
+
+export type TiffCompression = 'none' | 'packbits' | 'lzw';
+
+// optimized = bundled WASM codecs (mozjpeg, oxipng) for JPEG and PNG
+export type EncoderBackend = 'browser' | 'optimized';
+
+export type ChromaSubsampling = '420' | '444';
+
+// browser = a single canvas drawImage; the others run in TypeScript on the pixels
+export type ResampleFilter = 'browser' | 'bilinear' | 'bicubic' | 'lanczos3';
+
+// mirror = keep the subfolders of an imported folder in the export; flatten = all files side by side
+export type FolderStructure = 'mirror' | 'flatten';
+
+// folder = write files into a directory the user picks (File System Access API)
+export type ExportDestination = 'zip' | 'folder';
+
+// What a folder export does when a file of the same name is already there
+export type ExistingFilePolicy = 'overwrite' | 'skip' | 'rename';
+
+// One output of a multi-size export; everything not listed comes from ExportSettings
+export interface ExportProfile {
+  id: string;
+  name: string; // also the ZIP subfolder
+  sizeMode: SizeMode;
+  targetWidth: number;
+  targetHeight: number;
+  edgeSize: number;
+  scalePercent: number;
+  format: ExportFormat;
+  quality: number;
+  filenameTemplate: string;
+}
+
 export interface ExportSettings {
-  format: 'jpeg' | 'png' | 'webp';
+  sizeMode: SizeMode;
+  edgeSize: number; // longest / shortest edge in px
+  scalePercent: number; // percent of the source size
+  cropMode: 'locked' | 'free'; // free: each image keeps its own crop aspect
+  resizeMode: ResizeMode; // cover = crop to fill (fit inside for free crops); the others use the whole image unless the crop is free
+  padBackground: PadBackground;
+  padColor: string; // CSS color for padding
+  upscaleMode: UpscaleMode; // limit: cap at native size; pad: native size centered on the output
+  resampleFilter: ResampleFilter;
+  sharpen: boolean; // unsharp mask after resizing
+  sharpenAmount: number; // percent
+  sharpenRadius: number; // px at output size
+  sharpenThreshold: number; // 0-255
+  format: ExportFormat;
   quality: number; // 0-100
+  avifSpeed: number; // 0 (slowest, smallest) - 10 (fastest)
+  tiffCompression: TiffCompression;
+  encoder: EncoderBackend;
+  jpegProgressive: boolean;
+  jpegTrellis: boolean;
+  chromaSubsampling: ChromaSubsampling;
+  pngQuantize: boolean; // reduce to a palette before optimizing
+  pngColors: number; // 2-256
+  limitFileSize: boolean; // lower the quality until each file fits maxFileSizeKB
+  maxFileSizeKB: number;
   targetWidth: number;
   targetHeight: number;
   aspectLocked: boolean;
-  prefix: string;
-  suffix: string;
+  filenameTemplate: string; // see lib/filenameTemplate for tokens
   startIndex: number;
+  profiles: ExportProfile[]; // when set, each image is exported once per profile instead
+  writeManifest: boolean; // manifest.json in the ZIP
+  writeHtmlSnippets: boolean; // <img srcset>/<picture> markup in the ZIP
+  zipPartSizeMB: number; // split size when the ZIP can't be streamed to disk; each part is held in memory
+  destination: ExportDestination; // folder falls back to zip where unsupported
+  folderStructure: FolderStructure;
+  existingFilePolicy: ExistingFilePolicy;
+}
+
+// Per-image outcome of an export
+export interface ExportResult {
+  imageId: string;
+  profileId: string | null;
+  filename: string; // path inside the ZIP or the output folder
+  skipped: boolean; // not written: the folder already had a file of that name
+  width: number;
+  height: number;
+  format: ExportFormat;
+  bytes: number;
+  quality: number | null; // quality the encoder used; null for lossless formats
+  overSizeLimit: boolean; // still above maxFileSizeKB at the lowest quality
+  browserBytes: number | null; // browser encoder size, when the optimized encoder was used
+}
+
+export type ExportItemState = 'queued' | 'processing' | 'done' | 'failed';
+
+// Snapshot of a running export, one item per file to produce
+export interface ExportProgress {
+  done: number;
+  total: number;
+  items: Array<{ label: string; state: ExportItemState }>;
 }
 
 export interface AppSettings {
   enableCrop: boolean;
   enableSmartCrop: boolean;
+  smartCropOptions: SmartCropOptions;
   showRuleOfThirds: boolean;
   exportSettings: ExportSettings;
 }
@@ -54,8 +185,14 @@ export interface CropRect {
   y: number;
   width: number;
   height: number;
+  rotation?: number; // degrees clockwise around the rect center
+  flipX?: boolean;
+  flipY?: boolean;
 }
 
+// Crop editor resize handles (in the output/view frame)
+export type CropHandle = 'nw' | 'ne' | 'sw' | 'se' | 'n' | 's' | 'e' | 'w';
+
 // Utility type for crop calculation
 export interface CropCalculation {
   baseWidth: number;
@@ -64,6 +201,7 @@ export interface CropCalculation {
   cropHeight: number;
   cropX: number;
   cropY: number;
+  rotation: number;
 }
 
 // Default values
@@ -75,19 +213,59 @@ export const DEFAULT_CROP_STATE: CropState = {
 };
 
 export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  sizeMode: 'exact',
+  edgeSize: 2000,
+  scalePercent: 50,
+  cropMode: 'locked',
+  resizeMode: 'cover',
+  padBackground: 'color',
+  padColor: '#ffffff',
+  upscaleMode: 'allow',
+  resampleFilter: 'browser',
+  sharpen: false,
+  sharpenAmount: 60,
+  sharpenRadius: 0.8,
+  sharpenThreshold: 2,
   format: 'jpeg',
   quality: 90,
+  avifSpeed: 6,
+  tiffCompression: 'lzw',
+  encoder: 'browser',
+  jpegProgressive: true,
+  jpegTrellis: true,
+  chromaSubsampling: '420',
+  pngQuantize: false,
+  pngColors: 256,
+  limitFileSize: false,
+  maxFileSizeKB: 200,
   targetWidth: 1200,
   targetHeight: 800,
   aspectLocked: true,
-  prefix: 'image-',
-  suffix: '',
+  filenameTemplate: 'image-{index}',
   startIndex: 1,
+  profiles: [],
+  writeManifest: false,
+  writeHtmlSnippets: false,
+  zipPartSizeMB: 256,
+  destination: 'zip',
+  folderStructure: 'mirror',
+  existingFilePolicy: 'rename',
+};
+
+// smartcrop's own defaults, except minScale (smartcrop uses 1, which only tries the largest crop)
+export const DEFAULT_SMART_CROP_OPTIONS: SmartCropOptions = {
+  minScale: 0.5,
+  maxScale: 1,
+  ruleOfThirds: true,
+  skinWeight: 1.8,
+  detailWeight: 0.2,
+  saturationWeight: 0.1,
 };
 
 export const DEFAULT_APP_SETTINGS: AppSettings = {
   enableCrop: true,
   enableSmartCrop: true,
+  smartCropOptions: DEFAULT_SMART_CROP_OPTIONS,
   showRuleOfThirds: true,
   exportSettings: DEFAULT_EXPORT_SETTINGS,
 };
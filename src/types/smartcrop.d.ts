@@ -1,6 +1,18 @@
 declare module 'smartcrop' {
   export interface CropResult {
     topCrop: Crop;
+    crops?: Crop[]; // every crop that was scored, only with debug
+    // Feature maps at the prescaled size, only with debug:
+    // skin in red, detail in green, saturation in blue, boost in alpha
+    debugOutput?: { width: number; height: number; data: Uint8ClampedArray };
+  }
+
+  export interface CropScore {
+    detail: number;
+    saturation: number;
+    skin: number;
+    boost: number;
+    total: number;
   }
 
   export interface Crop {
@@ -8,19 +20,25 @@ declare module 'smartcrop' {
     y: number;
     width: number;
     height: number;
+    score: CropScore;
   }
 
   export interface CropOptions {
     width?: number;
     height?: number;
+    aspect?: number; // instead of width and height, so no crop size counts as an upscale
     minScale?: number;
     maxScale?: number;
     ruleOfThirds?: boolean;
+    skinWeight?: number;
+    detailWeight?: number;
+    saturationWeight?: number;
     debug?: boolean;
+    canvasFactory?: (width: number, height: number) => HTMLCanvasElement | OffscreenCanvas;
   }
 
   export function crop(
-    image: HTMLImageElement | HTMLCanvasElement,
+    image: HTMLImageElement | HTMLCanvasElement | ImageBitmap,
     options: CropOptions
   ): Promise<CropResult>;
 